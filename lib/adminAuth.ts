@@ -0,0 +1,30 @@
+// Bearer-token protection for admin endpoints (ADMIN_TOKEN)
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export function isAdminRequest(req: NextApiRequest): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) return false;
+
+  const authorization = req.headers.authorization?.toString() || '';
+  const provided = authorization.replace(/^Bearer\s+/i, '');
+
+  const expectedBuffer = Buffer.from(adminToken);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// Returns false (and sends the error response) when the request is not authorized
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  if (!process.env.ADMIN_TOKEN) {
+    res.status(503).json({ error: 'Admin API is disabled. Set ADMIN_TOKEN to enable it.' });
+    return false;
+  }
+
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+}
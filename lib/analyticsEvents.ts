@@ -0,0 +1,363 @@
+// Widget analytics events (ANALYTICS_TRACKING_PLAN.md) - the same events the widget sends
+// to GA4/dataLayer, kept server-side with the question text so they can be joined with
+// the exchange log. Stores: memory (per instance), file (one JSONL file per day) and redis (shared)
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataPath } from './dataDir';
+import { ExchangeRecord, searchExchanges } from './exchangeLog';
+import { getRedisClient } from './redisClient';
+
+export type AnalyticsEventName =
+  'ask_ed_widget_opened' |
+  'ask_ed_question_submitted' |
+  'ask_ed_response_received' |
+  'ask_ed_error' |
+  'ask_ed_rfq_submitted';
+
+export const ANALYTICS_EVENT_NAMES: AnalyticsEventName[] = [
+  'ask_ed_widget_opened',
+  'ask_ed_question_submitted',
+  'ask_ed_response_received',
+  'ask_ed_error',
+  'ask_ed_rfq_submitted'
+];
+
+// Recorded by the API routes themselves (a delivered quote request is a conversion) -
+// the widget only sends these to GA, never to /api/events
+export const SERVER_EVENT_NAMES: AnalyticsEventName[] = ['ask_ed_rfq_submitted'];
+
+// categorizeQuestion() in public/widget.js
+export const QUESTION_CATEGORIES = [
+  'pricing', 'specifications', 'compatibility', 'installation', 'availability',
+  'comparison', 'troubleshooting', 'features', 'general'
+];
+
+export interface AnalyticsEvent {
+  id: string;
+  timestamp: string; // ISO 8601, server time
+  name: AnalyticsEventName;
+  sessionId: string; // generateSessionId() - one per browser tab session
+  pagePath?: string;
+  productTitle?: string;
+  sku?: string;
+  surface?: string; // widget_opened: search_bar or chat
+  question?: string; // Never sent to GA - server-side only
+  questionCategory?: string;
+  hasDatasheet?: boolean;
+  conversationId?: string;
+  exchangeId?: string; // response_received - joins the event to the exchange log
+  responseLength?: number;
+  responseTimeMs?: number;
+  containsLinks?: boolean;
+  errorType?: string;
+  errorMessage?: string;
+  quantity?: number; // rfq_submitted
+  rfqReference?: string; // rfq_submitted - the reference the quote request was delivered with
+}
+
+export interface AnalyticsEventSearch {
+  name?: AnalyticsEventName;
+  from?: string; // YYYY-MM-DD
+  to?: string;   // YYYY-MM-DD
+}
+
+export interface AnalyticsEventStore {
+  readonly backend: string;
+  append(event: AnalyticsEvent): Promise<void>;
+  listDay(day: string): Promise<AnalyticsEvent[]>;
+}
+
+// One row per product and question category. notOnPage counts answered questions the
+// product page specs couldn't answer - either the datasheet had it (fromDatasheet) or
+// nothing did (unanswered). Those are the content gaps for the SEO and content team.
+export interface QuestionReportRow {
+  productTitle: string;
+  sku?: string;
+  category: string;
+  questions: number;
+  answered: number;
+  errors: number;
+  notOnPage: number;
+  fromDatasheet: number;
+  unanswered: number;
+  notOnPageRate: number; // notOnPage / answered questions matched to the exchange log
+  datasheetSections: string[]; // Datasheet sections that answered what the page didn't, most asked first
+  sampleQuestions: string[]; // Recent questions the page couldn't answer
+}
+
+export interface QuestionReport {
+  from: string;
+  to: string;
+  sessions: number;
+  widgetOpens: number;
+  quoteRequests: number; // Quote requests sent from the widget's inline RFQ form
+  rows: QuestionReportRow[]; // Most notOnPage first
+}
+
+const RETENTION_DAYS = parseInt(process.env.ANALYTICS_EVENT_RETENTION_DAYS || '90', 10);
+const MAX_MEMORY_EVENTS = 5000;
+const MAX_SEARCH_DAYS = 31;
+const DEFAULT_SEARCH_DAYS = 7;
+const MAX_SAMPLE_QUESTIONS = 5;
+const MAX_REPORT_SECTIONS = 5;
+const MAX_JOINED_EXCHANGES = 10000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayOf(timestamp: string): string {
+  return timestamp.substring(0, 10);
+}
+
+export function isAnalyticsEventName(name: unknown): name is AnalyticsEventName {
+  return typeof name === 'string' && ANALYTICS_EVENT_NAMES.indexOf(name as AnalyticsEventName) !== -1;
+}
+
+export function createMemoryAnalyticsEventStore(): AnalyticsEventStore {
+  const events: AnalyticsEvent[] = [];
+
+  return {
+    backend: 'memory',
+    async append(event) {
+      events.push(event);
+      if (events.length > MAX_MEMORY_EVENTS) {
+        events.splice(0, events.length - MAX_MEMORY_EVENTS);
+      }
+    },
+    async listDay(day) {
+      return events.filter(event => dayOf(event.timestamp) === day);
+    }
+  };
+}
+
+// JSONL file per day - single process only, meant for local development
+export function createFileAnalyticsEventStore(directory: string = path.dirname(getDataPath('analytics', '.keep'))): AnalyticsEventStore {
+  const filePathFor = (day: string) => path.join(directory, `${day}.jsonl`);
+
+  return {
+    backend: 'file',
+    async append(event) {
+      fs.appendFileSync(filePathFor(dayOf(event.timestamp)), JSON.stringify(event) + '\n');
+    },
+    async listDay(day) {
+      try {
+        return fs.readFileSync(filePathFor(day), 'utf8')
+          .split('\n')
+          .filter(line => line.trim())
+          .map(line => JSON.parse(line));
+      } catch (error) {
+        return [];
+      }
+    }
+  };
+}
+
+// One list per day, expiring after the retention period
+export function createRedisAnalyticsEventStore(redisUrl: string, keyPrefix: string = 'askEd:events:'): AnalyticsEventStore {
+  const redis = getRedisClient(redisUrl);
+  const retentionMs = RETENTION_DAYS * 86400000;
+
+  return {
+    backend: 'redis',
+    async append(event) {
+      const dayKey = `${keyPrefix}day:${dayOf(event.timestamp)}`;
+      await redis.command(['RPUSH', dayKey, JSON.stringify(event)]);
+      await redis.command(['PEXPIRE', dayKey, retentionMs]);
+    },
+    async listDay(day) {
+      const values = await redis.command(['LRANGE', `${keyPrefix}day:${day}`, 0, -1]) as string[] | null;
+      return (values || []).map(value => JSON.parse(value));
+    }
+  };
+}
+
+let analyticsEventStore: AnalyticsEventStore | null = null;
+
+// ANALYTICS_EVENT_STORE=memory|file|redis - defaults to redis when REDIS_URL is set
+export function getAnalyticsEventStore(): AnalyticsEventStore {
+  if (analyticsEventStore) return analyticsEventStore;
+
+  const storeType = process.env.ANALYTICS_EVENT_STORE || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (storeType === 'redis' && process.env.REDIS_URL) {
+    analyticsEventStore = createRedisAnalyticsEventStore(process.env.REDIS_URL);
+  } else if (storeType === 'file') {
+    analyticsEventStore = createFileAnalyticsEventStore();
+  } else {
+    if (storeType === 'redis') {
+      console.error('ANALYTICS_EVENT_STORE=redis but REDIS_URL is not set - falling back to memory store');
+    }
+    analyticsEventStore = createMemoryAnalyticsEventStore();
+  }
+
+  console.log('Analytics event store:', analyticsEventStore.backend);
+  return analyticsEventStore;
+}
+
+// Never throws - analytics must not break the widget
+export async function recordAnalyticsEvent(event: Omit<AnalyticsEvent, 'id' | 'timestamp'>): Promise<AnalyticsEvent | null> {
+  const now = new Date();
+  const record: AnalyticsEvent = Object.assign({
+    id: `${now.toISOString().substring(0, 10)}-${crypto.randomBytes(6).toString('hex')}`,
+    timestamp: now.toISOString()
+  }, event);
+
+  try {
+    await getAnalyticsEventStore().append(record);
+    return record;
+  } catch (error) {
+    console.error('Analytics event error:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+function searchRange(search: AnalyticsEventSearch): { from: string; to: string } {
+  const today = new Date().toISOString().substring(0, 10);
+  const to = search.to && DAY_PATTERN.test(search.to) ? search.to : today;
+  const defaultFrom = new Date(`${to}T00:00:00Z`);
+  defaultFrom.setUTCDate(defaultFrom.getUTCDate() - (DEFAULT_SEARCH_DAYS - 1));
+  const from = search.from && DAY_PATTERN.test(search.from) ? search.from : defaultFrom.toISOString().substring(0, 10);
+  return { from, to };
+}
+
+// Newest first; dates are UTC days and the range is capped at MAX_SEARCH_DAYS
+export async function searchAnalyticsEvents(search: AnalyticsEventSearch): Promise<AnalyticsEvent[]> {
+  const { from, to } = searchRange(search);
+  const store = getAnalyticsEventStore();
+  const events: AnalyticsEvent[] = [];
+  const cursor = new Date(`${to}T00:00:00Z`);
+  const start = new Date(`${from}T00:00:00Z`);
+  for (let days = 0; cursor >= start && days < MAX_SEARCH_DAYS; days++) {
+    const dayEvents = await store.listDay(cursor.toISOString().substring(0, 10));
+    dayEvents
+      .filter(event => !search.name || event.name === search.name)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .forEach(event => events.push(event));
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  return events;
+}
+
+export type AnswerSource = 'page' | 'datasheet' | 'template' | 'none';
+
+// Where the logged answer got its facts: the product page (or the part number printed
+// on it), the datasheet only, a canned template, or nowhere. Safety escalations are not content gaps.
+export function answerSource(exchange: ExchangeRecord): AnswerSource | null {
+  if (exchange.safetyCategory) return null;
+  if (exchange.model === 'template') return 'template';
+  const citations = exchange.citations || [];
+  if (citations.some(citation => citation.source === 'productSpecs' || citation.source === 'partNumber')) return 'page';
+  if (citations.some(citation => citation.source === 'datasheet')) return 'datasheet';
+  return 'none';
+}
+
+function countTop(counts: Map<string, number>, limit: number): string[] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(entry => entry[0]);
+}
+
+// Questions per product and category, joined with the exchange log by exchangeId to find
+// what customers ask that the product page doesn't answer
+export async function getQuestionReport(search: AnalyticsEventSearch): Promise<QuestionReport> {
+  const { from, to } = searchRange(search);
+  const events = await searchAnalyticsEvents({ from, to });
+  const exchanges = await searchExchanges({ from, to, limit: MAX_JOINED_EXCHANGES });
+  const exchangesById = new Map<string, ExchangeRecord>();
+  exchanges.forEach(exchange => exchangesById.set(exchange.id, exchange));
+
+  const sessions = new Set<string>();
+  let widgetOpens = 0;
+  let quoteRequests = 0;
+  const rows = new Map<string, QuestionReportRow>();
+  const sections = new Map<string, Map<string, number>>();
+
+  const rowFor = (event: AnalyticsEvent): QuestionReportRow => {
+    const productTitle = event.productTitle || 'Unknown product';
+    const category = event.questionCategory || 'general';
+    const key = `${productTitle}\n${category}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        productTitle,
+        sku: event.sku,
+        category,
+        questions: 0,
+        answered: 0,
+        errors: 0,
+        notOnPage: 0,
+        fromDatasheet: 0,
+        unanswered: 0,
+        notOnPageRate: 0,
+        datasheetSections: [],
+        sampleQuestions: []
+      };
+      rows.set(key, row);
+      sections.set(key, new Map<string, number>());
+    }
+    if (!row.sku && event.sku) row.sku = event.sku;
+    return row;
+  };
+
+  const matched = new Map<QuestionReportRow, number>();
+
+  // Events are newest first, so sample questions are the most recent ones
+  events.forEach(event => {
+    sessions.add(event.sessionId);
+    if (event.name === 'ask_ed_widget_opened') {
+      widgetOpens++;
+      return;
+    }
+    if (event.name === 'ask_ed_rfq_submitted') {
+      quoteRequests++;
+      return;
+    }
+    if (event.name === 'ask_ed_question_submitted') {
+      rowFor(event).questions++;
+      return;
+    }
+    if (event.name === 'ask_ed_error') {
+      if (event.questionCategory) rowFor(event).errors++;
+      return;
+    }
+
+    const row = rowFor(event);
+    row.answered++;
+    const exchange = event.exchangeId ? exchangesById.get(event.exchangeId) : undefined;
+    const source = exchange ? answerSource(exchange) : null;
+    // Pricing, stock and other template answers never draw on the page, so they aren't gaps either
+    if (!exchange || !source || source === 'template') return;
+
+    matched.set(row, (matched.get(row) || 0) + 1);
+    if (source === 'page') return;
+
+    row.notOnPage++;
+    if (source === 'datasheet') {
+      row.fromDatasheet++;
+      const rowSections = sections.get(`${row.productTitle}\n${row.category}`)!;
+      (exchange.citations || [])
+        .filter(citation => citation.source === 'datasheet')
+        .forEach(citation => {
+          const section = citation.section || citation.label;
+          rowSections.set(section, (rowSections.get(section) || 0) + 1);
+        });
+    } else {
+      row.unanswered++;
+    }
+
+    const question = event.question || exchange.question;
+    if (question && row.sampleQuestions.length < MAX_SAMPLE_QUESTIONS && row.sampleQuestions.indexOf(question) === -1) {
+      row.sampleQuestions.push(question);
+    }
+  });
+
+  const sortedRows = Array.from(rows.entries()).map(entry => {
+    const row = entry[1];
+    const matchedCount = matched.get(row) || 0;
+    row.notOnPageRate = matchedCount > 0 ? Math.round((row.notOnPage / matchedCount) * 100) / 100 : 0;
+    row.datasheetSections = countTop(sections.get(entry[0])!, MAX_REPORT_SECTIONS);
+    return row;
+  }).sort((a, b) => b.notOnPage - a.notOnPage || b.questions - a.questions);
+
+  return { from, to, sessions: sessions.size, widgetOpens, quoteRequests, rows: sortedRows };
+}
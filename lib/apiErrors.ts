@@ -0,0 +1,20 @@
+// Machine-readable error codes for the public API - the widget maps these to customer messages
+import type { NextApiResponse } from 'next';
+
+export type ApiErrorCode =
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'WIDGET_TOKEN_MISSING'
+  | 'WIDGET_TOKEN_INVALID'
+  | 'WIDGET_TOKEN_EXPIRED'
+  | 'RATE_LIMITED';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  retryAfter?: number; // Seconds, for RATE_LIMITED
+}
+
+export function sendApiError(res: NextApiResponse, status: number, code: ApiErrorCode, message: string) {
+  const body: ApiErrorBody = { error: message, code };
+  res.status(status).json(body);
+}
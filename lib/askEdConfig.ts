@@ -0,0 +1,125 @@
+// Ask Ed persona, rules and templates - loaded from config/ask-ed.json and validated
+// against config/ask-ed.schema.json when the module loads. Bump "version" on every
+// edit: it is returned with each answer and stored on the exchange log.
+import askEdConfigFile from '../config/ask-ed.json';
+import askEdConfigSchema from '../config/ask-ed.schema.json';
+
+export interface AskEdTemplates {
+  missingSpec: string;
+  similarProducts: string;
+  accessories: string;
+  pricing: string;
+  volumePricing: string;
+  stockInfo: string;
+  expertConsultation: string;
+  handoffConfirmation: string; // [REFERENCE] is replaced with the handoff ticket reference
+  rfqConfirmation: string; // [REFERENCE] is replaced with the quote request reference
+}
+
+export interface AskEdLanguageRules {
+  forbiddenPhrases: string[];
+  replacements: { [replacement: string]: string[] };
+}
+
+export interface TerminologyEntry {
+  primarySource: string;
+  secondarySource?: string;
+  note?: string;
+  values?: string[];
+  aliases?: string[];
+}
+
+export interface AskEdContentConfig {
+  version: string;
+  systemPrompt: string;
+  templates: AskEdTemplates;
+  languageRules: AskEdLanguageRules;
+  accuracyRules: string[];
+  ledDriverTerminology: { [topic: string]: TerminologyEntry };
+}
+
+// The subset of JSON Schema used by config/ask-ed.schema.json
+interface SchemaNode {
+  type?: 'object' | 'array' | 'string';
+  required?: string[];
+  properties?: { [key: string]: SchemaNode };
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+let askEdContentConfig: AskEdContentConfig | null = null;
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+export function validateAgainstSchema(value: unknown, schema: SchemaNode, path = 'config'): string[] {
+  if (schema.type && typeOf(value) !== schema.type) {
+    return [`${path} must be ${schema.type === 'array' ? 'an array' : `a ${schema.type}`}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} must not be empty`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path} must match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+    }
+    const itemSchema = schema.items;
+    if (itemSchema) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, itemSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as { [key: string]: unknown };
+    (schema.required || []).forEach(key => {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    });
+    Object.keys(record).forEach(key => {
+      const propertySchema = schema.properties && schema.properties[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not an allowed property`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(record[key], schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+}
+
+// Throws with every schema problem listed, so a bad edit fails when the API route loads
+export function loadAskEdContentConfig(): AskEdContentConfig {
+  if (!askEdContentConfig) {
+    const errors = validateAgainstSchema(askEdConfigFile, askEdConfigSchema as SchemaNode);
+    if (errors.length > 0) {
+      throw new Error(`Invalid config/ask-ed.json:\n- ${errors.join('\n- ')}`);
+    }
+
+    const file = askEdConfigFile as unknown as Omit<AskEdContentConfig, 'systemPrompt'> & { systemPrompt: string[] };
+    askEdContentConfig = {
+      version: file.version,
+      systemPrompt: file.systemPrompt.join('\n'),
+      templates: file.templates,
+      languageRules: file.languageRules,
+      accuracyRules: file.accuracyRules,
+      ledDriverTerminology: file.ledDriverTerminology
+    };
+    console.log('Ask Ed config version:', askEdContentConfig.version);
+  }
+  return askEdContentConfig;
+}
@@ -0,0 +1,143 @@
+// Source citations - which product page spec line or datasheet section each
+// quoted value in an answer came from. Matching runs on the finished answer, so
+// the model's output format never has to change.
+import { DATASHEET_SECTION_HEADINGS } from './datasheet';
+import { ModelSpecs } from './datasheetParser';
+
+export type CitationSource = 'productSpecs' | 'datasheet' | 'partNumber';
+
+export interface Citation {
+  source: CitationSource;
+  label: string;      // Footnote text, e.g. "Source: datasheet, Output section"
+  values: string[];   // Values from the answer backed by this source
+  line?: number;      // 1-based productSpecs line
+  section?: string;   // Datasheet section, e.g. "OUTPUT" or "DIMMING INFORMATION"
+  parameter?: string;
+}
+
+export interface CitationContext {
+  productSpecs: string;
+  datasheetContent?: string;
+  modelSpecs?: ModelSpecs | null;
+}
+
+interface DatasheetSection {
+  heading: string;
+  text: string;
+}
+
+// Quoted spec values: 24V, 5A, 90-305VAC, 0.95, 94%, IP67, -40~+70°C ... (part numbers such as HLG-120H-24A are skipped)
+const VALUE_PATTERN = /(?<![A-Za-z0-9\-.])(?:IP\s?\d{2}|[+\-]?\d+(?:\.\d+)?(?:\s*(?:~|-|to)\s*[+\-]?\d+(?:\.\d+)?)?\s*(?:VAC|VDC|Vp-p|mVp-p|mA|KHz|Hz|mm|ms|°C|℃|kg|A|V|W|%|g))(?![A-Za-z0-9])/gi;
+
+export function normalizeValue(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/℃/g, '°c')
+    .replace(/\s*(?:~|\bto\b)\s*/g, '-')
+    .replace(/\s+/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function containsValue(normalizedText: string, normalizedValue: string): boolean {
+  return new RegExp(`(?<![\\d.])${escapeRegExp(normalizedValue)}(?!\\d)`).test(normalizedText);
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s/&])([a-z])/g, (match, separator, letter) => separator + letter.toUpperCase());
+}
+
+export function extractQuotedValues(answerText: string): string[] {
+  const values: string[] = [];
+  (answerText.match(VALUE_PATTERN) || []).forEach(value => {
+    const trimmed = value.trim();
+    if (values.indexOf(trimmed) === -1) values.push(trimmed);
+  });
+  return values;
+}
+
+// Split fetchPDFContent output back into its named sections
+export function splitDatasheetSections(datasheetContent: string): DatasheetSection[] {
+  const sections: DatasheetSection[] = [];
+  let current: DatasheetSection | null = null;
+
+  datasheetContent.split('\n').forEach(line => {
+    const heading = DATASHEET_SECTION_HEADINGS.find(name => line.trim() === `${name}:`);
+    if (heading) {
+      current = { heading, text: '' };
+      sections.push(current);
+    } else if (current) {
+      current.text += line + '\n';
+    }
+  });
+
+  return sections;
+}
+
+// Product page specs are cited first - the prompt tells Ed to prefer them over the datasheet
+export function findCitations(answerText: string, context: CitationContext): Citation[] {
+  const citations: Citation[] = [];
+  const cite = (citation: Omit<Citation, 'values'>, value: string) => {
+    const existing = citations.find(item => item.label === citation.label);
+    if (existing) {
+      if (existing.values.indexOf(value) === -1) existing.values.push(value);
+    } else {
+      citations.push(Object.assign({ values: [value] }, citation));
+    }
+  };
+
+  const specLines = context.productSpecs.split('\n');
+  const datasheetSections = splitDatasheetSections(context.datasheetContent || '');
+
+  extractQuotedValues(answerText).forEach(value => {
+    const normalized = normalizeValue(value);
+
+    const lineIndex = specLines.findIndex(line => containsValue(normalizeValue(line), normalized));
+    if (lineIndex !== -1) {
+      const labelMatch = specLines[lineIndex].match(/^\s*([^:\n]{2,40}):/);
+      const parameter = labelMatch ? labelMatch[1].trim() : undefined;
+      cite({
+        source: 'productSpecs',
+        label: `Source: product page, ${parameter || `line ${lineIndex + 1}`}`,
+        line: lineIndex + 1,
+        parameter
+      }, value);
+      return;
+    }
+
+    const spec = context.modelSpecs?.specs.find(entry => containsValue(normalizeValue(entry.value), normalized));
+    if (spec) {
+      cite({
+        source: 'datasheet',
+        label: spec.section ? `Source: datasheet, ${toTitleCase(spec.section)} section` : 'Source: datasheet',
+        section: spec.section || undefined,
+        parameter: spec.parameter
+      }, value);
+      return;
+    }
+
+    const section = datasheetSections.find(item => containsValue(normalizeValue(item.text), normalized));
+    if (section) {
+      const isRawText = section.heading === 'ADDITIONAL DATASHEET TEXT';
+      cite({
+        source: 'datasheet',
+        label: isRawText ? 'Source: datasheet' : `Source: datasheet, ${toTitleCase(section.heading)}`,
+        section: section.heading
+      }, value);
+    }
+  });
+
+  return citations;
+}
+
+// Answers decoded from the part number cite the part number itself
+export function partNumberCitation(modelNumber: string, suffix: string): Citation {
+  return {
+    source: 'partNumber',
+    label: `Source: part number ${modelNumber}`,
+    values: suffix ? [suffix] : [],
+    parameter: 'Model suffix'
+  };
+}
@@ -0,0 +1,157 @@
+// Conversation memory for multi-turn Ask Ed chats
+// Keeps a bounded, token-budgeted history per conversation so follow-up
+// questions ("what about at 50°C?") are answered in context.
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface ConversationEntry {
+  turns: ChatTurn[];
+  summary: string;
+  productTitle: string;
+  lastUsed: number;
+}
+
+export interface ConversationHistory {
+  summary: string;
+  turns: ChatTurn[];
+}
+
+const CONVERSATION_TTL = 3600000; // 1 hour in milliseconds
+const MAX_CONVERSATIONS = 500;
+const MAX_TURN_CHARS = 1500; // Clip overly long turns before storing them
+const MAX_SUMMARY_CHARS = 600;
+
+// In-memory conversation storage (per instance; clients may also replay history)
+const conversationStore = new Map<string, ConversationEntry>();
+
+// Rough token estimate - same ~4 chars per token ratio used for datasheet budgets
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createConversationId(): string {
+  return 'conv_' + Date.now().toString(36) + '_' + Math.random().toString(36).substr(2, 9);
+}
+
+export function isValidConversationId(conversationId: unknown): conversationId is string {
+  return typeof conversationId === 'string' && /^[A-Za-z0-9_\-]{8,64}$/.test(conversationId);
+}
+
+// Sanitize client-supplied prior turns - only plain user/assistant text is accepted. /api/ask
+// replays only the user turns (assistant turns come from the exchange log); the handoff
+// transcript keeps both.
+export function sanitizeTurns(turns: unknown): ChatTurn[] {
+  if (!Array.isArray(turns)) return [];
+
+  return turns
+    .filter((turn): turn is ChatTurn =>
+      !!turn &&
+      (turn.role === 'user' || turn.role === 'assistant') &&
+      typeof turn.content === 'string' &&
+      turn.content.trim().length > 0
+    )
+    .map(turn => ({
+      role: turn.role,
+      content: stripHtml(turn.content).substring(0, MAX_TURN_CHARS)
+    }));
+}
+
+function stripHtml(text: string): string {
+  return text.replace(/<[^>]*>/g, '').trim();
+}
+
+function evictOldConversations() {
+  const now = Date.now();
+
+  const keysToDelete: string[] = [];
+  conversationStore.forEach((value, key) => {
+    if (now - value.lastUsed > CONVERSATION_TTL) {
+      keysToDelete.push(key);
+    }
+  });
+  keysToDelete.forEach(key => conversationStore.delete(key));
+
+  // If still over limit, remove least recently used
+  if (conversationStore.size > MAX_CONVERSATIONS) {
+    const entries = Array.from(conversationStore.entries());
+    entries.sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    entries.slice(0, conversationStore.size - MAX_CONVERSATIONS).forEach(([key]) => conversationStore.delete(key));
+  }
+}
+
+// Fold dropped turns into a short running summary of what was already asked
+function summarizeTurns(previousSummary: string, dropped: ChatTurn[]): string {
+  const earlierQuestions = dropped
+    .filter(turn => turn.role === 'user')
+    .map(turn => turn.content.replace(/\s+/g, ' ').substring(0, 120));
+
+  if (earlierQuestions.length === 0) return previousSummary;
+
+  const summary = [previousSummary, ...earlierQuestions.map(q => `- Customer asked: ${q}`)]
+    .filter(Boolean)
+    .join('\n');
+
+  // Keep the most recent part of the summary if it grows too large
+  return summary.length > MAX_SUMMARY_CHARS
+    ? summary.substring(summary.length - MAX_SUMMARY_CHARS).replace(/^[^\n]*\n/, '')
+    : summary;
+}
+
+// Trim history to the token budget and turn limit, oldest turns first
+export function applyHistoryBudget(
+  history: ConversationHistory,
+  maxTokens: number,
+  maxTurns: number
+): ConversationHistory {
+  const turns = history.turns.slice();
+  const dropped: ChatTurn[] = [];
+
+  const totalTokens = () => turns.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+
+  while (turns.length > 0 && (turns.length > maxTurns || totalTokens() > maxTokens)) {
+    dropped.push(turns.shift() as ChatTurn);
+  }
+
+  // Never start the replayed history with a dangling assistant turn
+  while (turns.length > 0 && turns[0].role === 'assistant') {
+    dropped.push(turns.shift() as ChatTurn);
+  }
+
+  return {
+    summary: summarizeTurns(history.summary, dropped),
+    turns
+  };
+}
+
+export function getConversationHistory(conversationId: string, productTitle: string): ConversationHistory {
+  const entry = conversationStore.get(conversationId);
+
+  if (!entry || Date.now() - entry.lastUsed > CONVERSATION_TTL) {
+    return { summary: '', turns: [] };
+  }
+
+  // A conversation is scoped to one product page - don't carry answers across products
+  if (entry.productTitle !== productTitle) {
+    return { summary: '', turns: [] };
+  }
+
+  entry.lastUsed = Date.now();
+  return { summary: entry.summary, turns: entry.turns.slice() };
+}
+
+export function saveConversationHistory(conversationId: string, productTitle: string, history: ConversationHistory) {
+  evictOldConversations();
+  conversationStore.set(conversationId, {
+    turns: history.turns,
+    summary: history.summary,
+    productTitle,
+    lastUsed: Date.now()
+  });
+}
+
+export function getConversationCount(): number {
+  return conversationStore.size;
+}
@@ -0,0 +1,81 @@
+// Origin allow-listing for the public API routes
+// ALLOWED_ORIGINS=https://www.bravoelectro.com,https://*.bravoelectro.com
+// Unset means any origin may call the API (local development only).
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendApiError } from './apiErrors';
+
+export interface CorsOptions {
+  methods: string;
+  allowHeaders?: string;
+  exposeHeaders?: string;
+}
+
+const DEFAULT_ALLOW_HEADERS = 'Content-Type, X-Ask-Ed-Token';
+
+let warnedAboutOpenCors = false;
+
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+export function getAllowedOrigins(): string[] {
+  return (process.env.ALLOWED_ORIGINS || '').split(',').map(normalizeOrigin).filter(Boolean);
+}
+
+function originMatches(origin: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return origin === pattern;
+
+  // https://*.bravoelectro.com matches any subdomain (but not the bare domain)
+  const regex = new RegExp('^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace('*', '[a-z0-9-]+(\\.[a-z0-9-]+)*') + '$');
+  return regex.test(origin);
+}
+
+export function isOriginAllowed(origin: string | undefined, host?: string): boolean {
+  const allowedOrigins = getAllowedOrigins();
+  if (allowedOrigins.length === 0) return true;
+  if (!origin) return false;
+
+  const normalizedOrigin = normalizeOrigin(origin);
+
+  // The app's own pages (test page, admin) are always allowed
+  if (host && normalizedOrigin.replace(/^https?:\/\//, '') === host.toLowerCase()) return true;
+
+  return allowedOrigins.some(pattern => originMatches(normalizedOrigin, pattern));
+}
+
+// Sets CORS headers and answers preflights. Returns false when the request has been
+// fully handled (preflight, or rejected with ORIGIN_NOT_ALLOWED) and the route should stop.
+export function applyCors(req: NextApiRequest, res: NextApiResponse, options: CorsOptions): boolean {
+  const origin = req.headers.origin?.toString();
+  const allowList = getAllowedOrigins().length > 0;
+
+  if (!allowList && !warnedAboutOpenCors && process.env.NODE_ENV === 'production') {
+    warnedAboutOpenCors = true;
+    console.error('ALLOWED_ORIGINS is not set - the API accepts requests from any origin');
+  }
+
+  if (allowList) {
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (!isOriginAllowed(origin, req.headers.host?.toString())) {
+    console.log('Origin rejected:', origin || 'none', req.url);
+    sendApiError(res, 403, 'ORIGIN_NOT_ALLOWED', 'Ask Ed is not enabled for this website.');
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', allowList && origin ? origin : '*');
+  res.setHeader('Access-Control-Allow-Methods', options.methods);
+  res.setHeader('Access-Control-Allow-Headers', options.allowHeaders || DEFAULT_ALLOW_HEADERS);
+  if (options.exposeHeaders) {
+    res.setHeader('Access-Control-Expose-Headers', options.exposeHeaders);
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,13 @@
+// Local data directory for file-backed stores (rate limits, caches, logs)
+import fs from 'fs';
+import path from 'path';
+
+export function getDataDir(): string {
+  return process.env.ASK_ED_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export function getDataPath(...segments: string[]): string {
+  const filePath = path.join(getDataDir(), ...segments);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return filePath;
+}
@@ -0,0 +1,336 @@
+// Datasheet download, extraction and persistent caching
+// Cache entries are keyed by datasheet URL -> content hash -> extraction, so an
+// unchanged PDF is never re-parsed and a revised PDF is picked up after invalidation.
+import crypto from 'crypto';
+import { DatasheetTable, parseDatasheetTable } from './datasheetParser';
+import { KeyValueStore, createKeyValueStore } from './keyValueStore';
+
+// Dynamic import for PDF processing to handle serverless environment
+let pdfParse: any = null;
+try {
+  pdfParse = require('pdf-parse');
+} catch (error) {
+  console.log('PDF processing not available in this environment:', error instanceof Error ? error.message : String(error));
+}
+
+export interface DatasheetExtraction {
+  content: string;
+  table: DatasheetTable | null;
+}
+
+interface DatasheetUrlEntry {
+  contentHash: string;
+  fetchedAt: number;
+}
+
+export interface DatasheetWarmResult {
+  url: string;
+  status: 'cached' | 'warmed' | 'failed';
+  contentHash?: string;
+  error?: string;
+}
+
+export interface DatasheetCacheStats {
+  backend: string;
+  datasheets: number;
+  extractions: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// Section headings written by extractDatasheetContent, in output order (used for citations)
+export const DATASHEET_SECTION_HEADINGS = [
+  'SPECIFICATION TABLE',
+  'OUTPUT SPECIFICATIONS',
+  'VOLTAGE ADJUSTMENT',
+  'CURRENT ADJUSTMENT',
+  'MECHANICAL SPECIFICATIONS',
+  'MODEL SUFFIX INFORMATION',
+  'MODEL/SPECIFICATIONS TABLE',
+  'DIMMING INFORMATION',
+  'ADDITIONAL DATASHEET TEXT'
+];
+
+const CACHE_DURATION = 2592000000; // 30 days in milliseconds
+const URL_KEY_PREFIX = 'askEd:datasheet:url:';
+const EXTRACTION_KEY_PREFIX = 'askEd:datasheet:extraction:';
+const HITS_KEY = 'askEd:datasheet:stats:hits';
+const MISSES_KEY = 'askEd:datasheet:stats:misses';
+
+let datasheetStore: KeyValueStore | null = null;
+
+// DATASHEET_CACHE_STORE=memory|file|redis - defaults to redis when REDIS_URL is set
+export function getDatasheetStore(): KeyValueStore {
+  if (!datasheetStore) {
+    datasheetStore = createKeyValueStore(process.env.DATASHEET_CACHE_STORE);
+    console.log('Datasheet cache store:', datasheetStore.backend);
+  }
+  return datasheetStore;
+}
+
+async function recordCacheResult(hit: boolean) {
+  try {
+    await getDatasheetStore().increment(hit ? HITS_KEY : MISSES_KEY);
+  } catch (error) {
+    console.error('Datasheet cache stats error:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function extractDatasheetContent(pdfContent: string): DatasheetExtraction {
+  // Rebuild the spec table into (model x parameter) cells
+  const table = parseDatasheetTable(pdfContent);
+  console.log('Parsed specification table:', table ? `${table.models.length} models, ${table.rows.length} parameters` : 'not found');
+  
+  // Enhanced datasheet extraction - capturing full specification tables and embedded data
+  const sections = {
+    // CRITICAL: Extract full specification tables where constant current info lives
+    specificationTable: extractSection(pdfContent, [
+      'constant current region', 'voltage adj. range', 'voltage adj range', 'adj. range',
+      'output voltage', 'output current', 'rated power', 'rated current',
+      'model', 'dc output', 'output', 'specification', 'electrical characteristics',
+      'electrical specification', 'specifications', 'electrical spec'
+    ], 10000), // Maximum extraction to capture full tables with all columns
+    
+    // Model-specific tables and ordering info
+    modelTable: extractSection(pdfContent, ['model no', 'part number', 'ordering information', 'model table', 'model list'], 4000),
+    
+    // Voltage/Current specifications - where constant current info is embedded
+    outputSpecs: extractSection(pdfContent, [
+      'constant current region', 'voltage adj. range', 'voltage adj range', 'adj. range',
+      'voltage range', 'current range', 'output voltage range', 'output current range',
+      'constant current', 'cc region', 'constant voltage', 'cv region',
+      'voltage', 'current', 'vdc', 'adc', 'output', 'v adj', 'i adj'
+    ], 6000),
+    
+    // Adjustment ranges - CRITICAL for A suffix models
+    voltageAdjust: extractSection(pdfContent, ['voltage adj. range', 'voltage adjustment', 'vadj', 'output voltage adjustment', 'potentiometer', 'trim pot', 'adjustment range', 'voltage adj range'], 3000),
+    currentAdjust: extractSection(pdfContent, ['current adj. range', 'current adjustment', 'iadj', 'output current adjustment', 'current adj range'], 2000),
+    
+    // Mechanical specifications - for mounting/installation questions
+    mechanical: extractSection(pdfContent, ['mechanical specification', 'mechanical drawing', 'mounting', 'dimensions', 'hole diameter', 'hole spacing', 'mounting holes', 'mechanical dimension'], 2000),
+    
+    // Model suffix information
+    suffixInfo: extractSection(pdfContent, ['model suffix', 'suffix code', 'model code', 'ordering information', 'model designation'], 1500),
+    
+    // Other specs
+    dimming: extractSection(pdfContent, ['dimming', 'dim function', 'dimming operation'], 1500),
+    features: extractSection(pdfContent, ['features', 'key features'], 1000)
+  };
+  
+  // Combine ALL content - prioritize technical specs
+  let combinedContent = `COMPLETE DATASHEET CONTENT:
+
+`;
+  
+  // HIGHEST PRIORITY: Full specification tables (where constant current info lives)
+  if (sections.specificationTable) {
+    combinedContent += `SPECIFICATION TABLE:
+${sections.specificationTable}
+
+`;
+  }
+  
+  // Output specifications including voltage/current ranges
+  if (sections.outputSpecs) {
+    combinedContent += `OUTPUT SPECIFICATIONS:
+${sections.outputSpecs}
+
+`;
+  }
+  
+  if (sections.voltageAdjust) {
+    combinedContent += `VOLTAGE ADJUSTMENT:
+${sections.voltageAdjust}
+
+`;
+  }
+  
+  if (sections.currentAdjust) {
+    combinedContent += `CURRENT ADJUSTMENT:
+${sections.currentAdjust}
+
+`;
+  }
+  
+  if (sections.mechanical) {
+    combinedContent += `MECHANICAL SPECIFICATIONS:
+${sections.mechanical}
+
+`;
+  }
+  
+  if (sections.suffixInfo) {
+    combinedContent += `MODEL SUFFIX INFORMATION:
+${sections.suffixInfo}
+
+`;
+  }
+  
+  if (sections.modelTable) {
+    combinedContent += `MODEL/SPECIFICATIONS TABLE:
+${sections.modelTable}
+
+`;
+  }
+  
+  if (sections.dimming) {
+    combinedContent += `DIMMING INFORMATION:
+${sections.dimming}
+
+`;
+  }
+  
+  // If critical sections are missing, include more raw content
+  if (!sections.specificationTable || !sections.outputSpecs) {
+    combinedContent += `ADDITIONAL DATASHEET TEXT:
+${pdfContent.substring(0, 6000)}
+`;
+  }
+  
+  // Maximum extraction for complete specification tables
+  const finalContent = combinedContent.substring(0, 8000); // ~2000 tokens for complete tables
+  
+  console.log('PDF extraction complete. Sections found:', {
+    specificationTable: !!sections.specificationTable,
+    outputSpecs: !!sections.outputSpecs,
+    voltageAdjust: !!sections.voltageAdjust,
+    currentAdjust: !!sections.currentAdjust,
+    mechanical: !!sections.mechanical,
+    modelTable: !!sections.modelTable
+  });
+  
+  return { content: finalContent, table };
+}
+
+// Download a datasheet and extract it, reusing a stored extraction when the PDF bytes are unchanged
+async function downloadDatasheet(url: string): Promise<{ contentHash: string; extraction: DatasheetExtraction }> {
+  console.log('Attempting to fetch PDF:', url);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PDF: ${response.statusText}`);
+  }
+  
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const contentHash = crypto.createHash('sha256').update(buffer).digest('hex');
+  const store = getDatasheetStore();
+  
+  const storedExtraction = await store.get(EXTRACTION_KEY_PREFIX + contentHash);
+  let extraction: DatasheetExtraction;
+  if (storedExtraction) {
+    console.log('Datasheet content unchanged, reusing extraction:', contentHash.substring(0, 12));
+    extraction = JSON.parse(storedExtraction);
+  } else {
+    const data = await pdfParse(buffer);
+    console.log('PDF processing successful, extracted text length:', data.text.length);
+    console.log('PDF total pages:', data.numpages);
+    extraction = extractDatasheetContent(data.text);
+    await store.set(EXTRACTION_KEY_PREFIX + contentHash, JSON.stringify(extraction), CACHE_DURATION);
+  }
+  
+  const urlEntry: DatasheetUrlEntry = { contentHash, fetchedAt: Date.now() };
+  await store.set(URL_KEY_PREFIX + url, JSON.stringify(urlEntry), CACHE_DURATION);
+  
+  return { contentHash, extraction };
+}
+
+async function getCachedExtraction(url: string): Promise<{ contentHash: string; extraction: DatasheetExtraction } | null> {
+  const store = getDatasheetStore();
+  const urlEntry = await store.get(URL_KEY_PREFIX + url);
+  if (!urlEntry) return null;
+  
+  const { contentHash }: DatasheetUrlEntry = JSON.parse(urlEntry);
+  const extraction = await store.get(EXTRACTION_KEY_PREFIX + contentHash);
+  return extraction ? { contentHash, extraction: JSON.parse(extraction) } : null;
+}
+
+export async function fetchPDFContent(url: string): Promise<DatasheetExtraction> {
+  // Check cache first
+  try {
+    const cached = await getCachedExtraction(url);
+    if (cached) {
+      console.log('Using cached PDF content for:', url);
+      await recordCacheResult(true);
+      return cached.extraction;
+    }
+  } catch (error) {
+    console.error('Datasheet cache read error:', error instanceof Error ? error.message : String(error));
+  }
+  
+  // Skip PDF processing if library not available
+  if (!pdfParse) {
+    console.log('PDF processing unavailable, skipping:', url);
+    return { content: '', table: null };
+  }
+  
+  await recordCacheResult(false);
+  
+  try {
+    const { extraction } = await downloadDatasheet(url);
+    return extraction;
+  } catch (error) {
+    console.error('PDF fetch error:', error);
+    return { content: '', table: null };
+  }
+}
+
+// Pre-fetch a datasheet outside the request path; force re-downloads even if cached
+export async function warmDatasheet(url: string, force: boolean = false): Promise<DatasheetWarmResult> {
+  try {
+    if (!force) {
+      const cached = await getCachedExtraction(url);
+      if (cached) return { url, status: 'cached', contentHash: cached.contentHash };
+    }
+    
+    if (!pdfParse) {
+      return { url, status: 'failed', error: 'PDF processing unavailable' };
+    }
+    
+    const { contentHash } = await downloadDatasheet(url);
+    return { url, status: 'warmed', contentHash };
+  } catch (error) {
+    return { url, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Forget a datasheet URL so the next request re-downloads it (e.g. after a manufacturer revision)
+export async function invalidateDatasheet(url: string): Promise<boolean> {
+  const store = getDatasheetStore();
+  const existed = !!(await store.get(URL_KEY_PREFIX + url));
+  await store.delete(URL_KEY_PREFIX + url);
+  return existed;
+}
+
+export async function getDatasheetCacheStats(): Promise<DatasheetCacheStats> {
+  const store = getDatasheetStore();
+  const [datasheets, extractions, hits, misses] = await Promise.all([
+    store.count(URL_KEY_PREFIX),
+    store.count(EXTRACTION_KEY_PREFIX),
+    store.get(HITS_KEY),
+    store.get(MISSES_KEY)
+  ]);
+  
+  const hitCount = parseInt(hits || '0', 10);
+  const missCount = parseInt(misses || '0', 10);
+  
+  return {
+    backend: store.backend,
+    datasheets,
+    extractions,
+    hits: hitCount,
+    misses: missCount,
+    hitRate: hitCount + missCount > 0 ? Math.round((hitCount / (hitCount + missCount)) * 1000) / 1000 : 0
+  };
+}
+
+function extractSection(text: string, keywords: string[], maxLength: number = 2000): string {
+  const lowerText = text.toLowerCase();
+  for (const keyword of keywords) {
+    const index = lowerText.indexOf(keyword.toLowerCase());
+    if (index !== -1) {
+      // Extract section with specified length
+      return text.substring(index, Math.min(index + maxLength, text.length));
+    }
+  }
+  return '';
+}
@@ -0,0 +1,237 @@
+// Structured parser for Mean Well-style specification tables in pdf-parse output
+// pdf-parse joins all text items on the same line without separators, so a table
+// row comes through as e.g. "DC VOLTAGE12V15V20V24V". This module rebuilds the
+// table into (model x parameter) cells and resolves the column for one exact model.
+
+export interface DatasheetRow {
+  section: string;
+  parameter: string;
+  values: string[] | null; // One value per model column
+  shared: string | null;   // Value that applies to every model in the table
+}
+
+export interface DatasheetTable {
+  models: string[];
+  rows: DatasheetRow[];
+}
+
+export interface ModelSpecEntry {
+  section: string;
+  parameter: string;
+  value: string;
+}
+
+export interface ModelSpecs {
+  model: string;
+  column: string; // Table column that was used (may omit the model suffix)
+  exactMatch: boolean;
+  specs: ModelSpecEntry[];
+}
+
+const SECTION_HEADERS = ['OUTPUT', 'INPUT', 'PROTECTION', 'FUNCTION', 'ENVIRONMENT', 'SAFETY & EMC', 'OTHERS'];
+
+// Canonical parameter labels as printed in Mean Well spec tables
+const PARAMETER_LABELS: { [label: string]: string } = {
+  'DC VOLTAGE': 'DC Voltage',
+  'CONSTANT CURRENT REGION': 'Constant Current Region',
+  'RATED CURRENT': 'Rated Current',
+  'CURRENT RANGE': 'Current Range',
+  'RATED POWER': 'Rated Power',
+  'RIPPLE & NOISE': 'Ripple & Noise',
+  'VOLTAGE ADJ. RANGE': 'Voltage ADJ. Range',
+  'CURRENT ADJ. RANGE': 'Current ADJ. Range',
+  'VOLTAGE TOLERANCE': 'Voltage Tolerance',
+  'LINE REGULATION': 'Line Regulation',
+  'LOAD REGULATION': 'Load Regulation',
+  'SETUP, RISE TIME': 'Setup, Rise Time',
+  'SETUP TIME': 'Setup Time',
+  'HOLD UP TIME': 'Hold Up Time',
+  'VOLTAGE RANGE': 'Input Voltage Range',
+  'FREQUENCY RANGE': 'Frequency Range',
+  'POWER FACTOR': 'Power Factor',
+  'TOTAL HARMONIC DISTORTION': 'Total Harmonic Distortion',
+  'EFFICIENCY': 'Efficiency',
+  'AC CURRENT': 'AC Current',
+  'INRUSH CURRENT': 'Inrush Current',
+  'LEAKAGE CURRENT': 'Leakage Current',
+  'SHORT CIRCUIT': 'Short Circuit Protection',
+  'OVER CURRENT': 'Over Current Protection',
+  'OVERLOAD': 'Overload Protection',
+  'OVER VOLTAGE': 'Over Voltage Protection',
+  'OVER TEMPERATURE': 'Over Temperature Protection',
+  'WORKING TEMP.': 'Working Temperature',
+  'WORKING HUMIDITY': 'Working Humidity',
+  'STORAGE TEMP., HUMIDITY': 'Storage Temperature, Humidity',
+  'TEMP. COEFFICIENT': 'Temperature Coefficient',
+  'VIBRATION': 'Vibration',
+  'MTBF': 'MTBF',
+  'DIMENSION': 'Dimension',
+  'PACKING': 'Packing'
+};
+
+// Longest labels first so "VOLTAGE ADJ. RANGE" wins over "VOLTAGE RANGE"
+const SORTED_LABELS = Object.keys(PARAMETER_LABELS).sort((a, b) => b.length - a.length);
+
+// One table cell: optional ±, a number or range, then a unit
+const CELL_VALUE_PATTERN = /[±]?\d+(?:\.\d+)?(?:\s*(?:V|A|W|%))?(?:\s*~\s*[±+\-]?\d+(?:\.\d+)?)?\s*(?:mVp-p|VAC|VDC|Vdc|mA|ms|Hz|°C|mm|V|A|W|%)/g;
+
+// Qualifiers and footnote markers printed between the label and the values
+const LABEL_QUALIFIER_PATTERN = /^\s*(?:\((?:max|typ|min)\.?\)\s*)?(?:Note\.\d(?:,\d)*\s*)?/i;
+
+function findParameterLabel(line: string): string | null {
+  const upperLine = line.toUpperCase();
+  for (const label of SORTED_LABELS) {
+    if (upperLine.startsWith(label)) {
+      return label;
+    }
+  }
+  return null;
+}
+
+// Split a concatenated MODEL header row into model numbers
+export function splitModelHeader(header: string): string[] {
+  const text = header.replace(/^MODEL\s*(?:NO\.?)?\s*/i, '').trim();
+  if (!text) return [];
+
+  // Space-separated header (some datasheets keep spacing)
+  if (/\s/.test(text)) {
+    return text.split(/\s+/).filter(Boolean);
+  }
+
+  // Concatenated header - the series prefix repeats before every model, e.g. "HLG-120H-"
+  // Use the longest dash-terminated prefix of the first model that occurs more than once
+  let prefix = '';
+  for (let i = text.indexOf('-'); i !== -1; i = text.indexOf('-', i + 1)) {
+    const candidate = text.substring(0, i + 1);
+    if (text.split(candidate).length - 1 >= 2) {
+      prefix = candidate;
+    }
+  }
+  if (!prefix) return [text];
+
+  const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text
+    .split(new RegExp(`(?=${escapedPrefix})`, 'i'))
+    .map(model => model.trim())
+    .filter(Boolean);
+}
+
+function tokenizeCells(text: string): string[] {
+  return (text.match(CELL_VALUE_PATTERN) || []).map(value => value.replace(/\s*~\s*/g, ' ~ ').trim());
+}
+
+export function parseDatasheetTable(text: string): DatasheetTable | null {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const headerIndex = lines.findIndex(line => /^MODEL\s*(?:NO\.?)?\s*[A-Z]{2,}/i.test(line));
+  if (headerIndex === -1) return null;
+
+  const models = splitModelHeader(lines[headerIndex]);
+  if (models.length === 0) return null;
+
+  const rows: DatasheetRow[] = [];
+  let section = '';
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    let line = lines[i];
+
+    // Section name is printed in the first column, on the same line as its first row
+    const sectionHeader = SECTION_HEADERS.find(header => line.toUpperCase().startsWith(header));
+    if (sectionHeader && (line.length === sectionHeader.length || findParameterLabel(line.substring(sectionHeader.length)))) {
+      section = sectionHeader;
+      line = line.substring(sectionHeader.length).trim();
+      if (!line) continue;
+    }
+
+    const label = findParameterLabel(line);
+    if (!label) {
+      // Stop at the first line that is clearly outside the table
+      if (rows.length > 0 && /^(NOTE|Model Encoding|DIMMING OPERATION|BLOCK DIAGRAM)/i.test(line)) break;
+
+      // Wrapped text of a shared value continues on the next line
+      const previousRow = rows[rows.length - 1];
+      if (previousRow?.shared && line.length < 200) {
+        previousRow.shared += ' ' + line;
+      }
+      continue;
+    }
+
+    const rawValue = line.substring(label.length).replace(LABEL_QUALIFIER_PATTERN, '').trim();
+    const cells = tokenizeCells(rawValue);
+
+    rows.push({
+      section,
+      parameter: PARAMETER_LABELS[label],
+      values: cells.length === models.length ? cells : null,
+      shared: cells.length === models.length ? null : rawValue.replace(/\s{2,}/g, ' / ')
+    });
+  }
+
+  return rows.length > 0 ? { models, rows } : null;
+}
+
+// Extract the model number from a product title ("HLG-120H-48A LED Driver" -> "HLG-120H-48A")
+export function extractModelNumber(productTitle: string): string | null {
+  const modelMatch = productTitle.trim().match(/^([A-Z0-9\-\.]+)/i);
+  return modelMatch ? modelMatch[1].toUpperCase() : null;
+}
+
+// Find the table column for a model - exact match first, then without the
+// option suffix (tables usually list HLG-120H-48 for HLG-120H-48A/B/AB)
+export function resolveModelColumn(models: string[], model: string): { index: number; exactMatch: boolean } | null {
+  const normalizedModels = models.map(m => m.toUpperCase());
+  const target = model.toUpperCase();
+
+  const exactIndex = normalizedModels.indexOf(target);
+  if (exactIndex !== -1) return { index: exactIndex, exactMatch: true };
+
+  const baseModel = target.replace(/(\d)[A-Z]{1,3}$/, '$1');
+  if (baseModel !== target) {
+    const baseIndex = normalizedModels.indexOf(baseModel);
+    if (baseIndex !== -1) return { index: baseIndex, exactMatch: false };
+  }
+
+  return null;
+}
+
+export function getModelSpecs(table: DatasheetTable, productTitle: string): ModelSpecs | null {
+  const model = extractModelNumber(productTitle);
+  if (!model) return null;
+
+  const column = resolveModelColumn(table.models, model);
+  if (!column) return null;
+
+  const specs = table.rows
+    .map(row => ({
+      section: row.section,
+      parameter: row.parameter,
+      value: row.values ? row.values[column.index] : row.shared || ''
+    }))
+    .filter(entry => entry.value);
+
+  return {
+    model,
+    column: table.models[column.index],
+    exactMatch: column.exactMatch,
+    specs
+  };
+}
+
+// Clean key/value block for the prompt - only the resolved model's values
+export function formatModelSpecs(modelSpecs: ModelSpecs): string {
+  const header = modelSpecs.exactMatch
+    ? `RESOLVED SPECIFICATIONS FOR ${modelSpecs.model} (extracted from the datasheet table row for this exact model):`
+    : `RESOLVED SPECIFICATIONS FOR ${modelSpecs.model} (from datasheet table column ${modelSpecs.column}, which covers the ${modelSpecs.model} suffix variant):`;
+
+  let block = header + '\n';
+  let currentSection = '';
+  modelSpecs.specs.forEach(entry => {
+    if (entry.section && entry.section !== currentSection) {
+      currentSection = entry.section;
+      block += `[${currentSection}]\n`;
+    }
+    block += `${entry.parameter}: ${entry.value}\n`;
+  });
+
+  return block.trim();
+}
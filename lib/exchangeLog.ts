@@ -0,0 +1,404 @@
+// Structured exchange log - one record per answered question, reviewed in /admin/exchanges
+// Stores: memory (per instance), file (one JSONL file per day) and redis (shared)
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Citation } from './citations';
+import { getDataPath } from './dataDir';
+import { LanguageRuleHit } from './languageRules';
+import { NumericGuardOutcome } from './numericGuard';
+import { extractModelNumber } from './datasheetParser';
+import { getRedisClient } from './redisClient';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Usage and estimated cost of one completion call (the answer, or a numeric guard regeneration)
+export interface ModelUsage extends TokenUsage {
+  model: string;
+  costUsd: number;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface ExchangeFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+  submittedAt: string;
+}
+
+// none: no datasheet on the page, failed: download/extraction returned nothing,
+// extracted: text only, resolved: the exact model's spec row was found
+export type DatasheetStatus = 'none' | 'failed' | 'extracted' | 'resolved';
+
+export interface ExchangeRecord {
+  id: string;
+  timestamp: string; // ISO 8601
+  conversationId: string;
+  question: string;
+  productTitle: string;
+  model: string; // gpt-4o, gpt-4o-mini, template or model-decoder
+  intent?: string;
+  datasheetUrl: string | null;
+  datasheetStatus?: DatasheetStatus;
+  latencyMs: number;
+  usage: TokenUsage | null;
+  routingRule?: string; // config/model-routing.json rule that picked the model
+  provider?: string; // LLM provider that answered (openai, compatible, mock) - differs from the primary after a fallback
+  modelUsage?: ModelUsage[];
+  costUsd?: number; // Estimated, from the config/model-routing.json price table
+  answer: string;
+  configVersion?: string; // config/ask-ed.json version - ties the answer to the rules that produced it
+  languageRuleHits?: LanguageRuleHit[]; // Phrases rewritten by the language rules post-processor
+  safetyCategory?: string; // config/safety.json category - the question was escalated to an expert
+  citations?: Citation[];
+  lowConfidence?: boolean;
+  numericGuard?: NumericGuardOutcome; // Set when the answer quoted values missing from the sources
+  unknownSkus?: string[]; // Part numbers missing from the SKU catalog - such answers are flagged automatically
+  flagged: boolean;
+  flagNote?: string;
+  flaggedAt?: string;
+  feedback?: ExchangeFeedback;
+}
+
+export interface SkuFeedbackSummary {
+  sku: string;
+  exchanges: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  downRate: number; // thumbsDown / rated exchanges
+  datasheetFailures: number;
+  recentComments: string[];
+}
+
+export interface DailyModelSpend {
+  day: string; // YYYY-MM-DD (UTC)
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface RoutingRuleCount {
+  rule: string;
+  model: string;
+  count: number;
+}
+
+export interface SpendSummary {
+  days: DailyModelSpend[]; // Newest day first, most expensive model first
+  rules: RoutingRuleCount[];
+  totalCostUsd: number;
+}
+
+export interface ExchangeSearch {
+  sku?: string;
+  conversationId?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string;   // YYYY-MM-DD
+  flaggedOnly?: boolean;
+  lowConfidenceOnly?: boolean;
+  limit?: number;
+}
+
+export interface ExchangeLogStore {
+  readonly backend: string;
+  append(record: ExchangeRecord): Promise<void>;
+  listDay(day: string): Promise<ExchangeRecord[]>;
+  update(record: ExchangeRecord): Promise<void>;
+}
+
+const RETENTION_DAYS = parseInt(process.env.EXCHANGE_LOG_RETENTION_DAYS || '90', 10);
+const MAX_MEMORY_RECORDS = 2000;
+const MAX_SEARCH_DAYS = 31;
+const DEFAULT_SEARCH_DAYS = 7;
+const MAX_SEARCH_RESULTS = 200;
+const MAX_AGGREGATE_RECORDS = 10000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayOf(timestamp: string): string {
+  return timestamp.substring(0, 10);
+}
+
+// Record ids start with their UTC day so a flag update knows where the record lives
+export function createExchangeId(date: Date = new Date()): string {
+  return `${date.toISOString().substring(0, 10)}-${crypto.randomBytes(6).toString('hex')}`;
+}
+
+export function isValidExchangeId(id: unknown): id is string {
+  return typeof id === 'string' && /^\d{4}-\d{2}-\d{2}-[0-9a-f]{12}$/.test(id);
+}
+
+export function createMemoryExchangeLogStore(): ExchangeLogStore {
+  const records: ExchangeRecord[] = [];
+
+  return {
+    backend: 'memory',
+    async append(record) {
+      records.push(record);
+      if (records.length > MAX_MEMORY_RECORDS) {
+        records.splice(0, records.length - MAX_MEMORY_RECORDS);
+      }
+    },
+    async listDay(day) {
+      return records.filter(record => dayOf(record.timestamp) === day);
+    },
+    async update(record) {
+      const index = records.findIndex(existing => existing.id === record.id);
+      if (index !== -1) records[index] = record;
+    }
+  };
+}
+
+// JSONL file per day - single process only, meant for local development
+export function createFileExchangeLogStore(directory: string = path.dirname(getDataPath('exchanges', '.keep'))): ExchangeLogStore {
+  const filePathFor = (day: string) => path.join(directory, `${day}.jsonl`);
+
+  const readDay = (day: string): ExchangeRecord[] => {
+    try {
+      return fs.readFileSync(filePathFor(day), 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      return [];
+    }
+  };
+
+  return {
+    backend: 'file',
+    async append(record) {
+      fs.appendFileSync(filePathFor(dayOf(record.timestamp)), JSON.stringify(record) + '\n');
+    },
+    async listDay(day) {
+      return readDay(day);
+    },
+    async update(record) {
+      const day = dayOf(record.timestamp);
+      const updated = readDay(day).map(existing => existing.id === record.id ? record : existing);
+      fs.writeFileSync(filePathFor(day), updated.map(existing => JSON.stringify(existing)).join('\n') + '\n');
+    }
+  };
+}
+
+// One key per record plus a per-day list of ids, both expiring after the retention period
+export function createRedisExchangeLogStore(redisUrl: string, keyPrefix: string = 'askEd:exchange:'): ExchangeLogStore {
+  const redis = getRedisClient(redisUrl);
+  const retentionMs = RETENTION_DAYS * 86400000;
+
+  return {
+    backend: 'redis',
+    async append(record) {
+      const dayKey = `${keyPrefix}day:${dayOf(record.timestamp)}`;
+      await redis.command(['SET', keyPrefix + record.id, JSON.stringify(record), 'PX', retentionMs]);
+      await redis.command(['RPUSH', dayKey, record.id]);
+      await redis.command(['PEXPIRE', dayKey, retentionMs]);
+    },
+    async listDay(day) {
+      const ids = await redis.command(['LRANGE', `${keyPrefix}day:${day}`, 0, -1]) as string[] | null;
+      if (!ids || ids.length === 0) return [];
+
+      const values = await redis.command(['MGET', ...ids.map(id => keyPrefix + id)]) as (string | null)[];
+      return values
+        .filter((value): value is string => typeof value === 'string')
+        .map(value => JSON.parse(value));
+    },
+    async update(record) {
+      const remaining = Number(await redis.command(['PTTL', keyPrefix + record.id]));
+      await redis.command(['SET', keyPrefix + record.id, JSON.stringify(record), 'PX', remaining > 0 ? remaining : retentionMs]);
+    }
+  };
+}
+
+let exchangeLogStore: ExchangeLogStore | null = null;
+
+// EXCHANGE_LOG_STORE=memory|file|redis - defaults to redis when REDIS_URL is set
+export function getExchangeLogStore(): ExchangeLogStore {
+  if (exchangeLogStore) return exchangeLogStore;
+
+  const storeType = process.env.EXCHANGE_LOG_STORE || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (storeType === 'redis' && process.env.REDIS_URL) {
+    exchangeLogStore = createRedisExchangeLogStore(process.env.REDIS_URL);
+  } else if (storeType === 'file') {
+    exchangeLogStore = createFileExchangeLogStore();
+  } else {
+    if (storeType === 'redis') {
+      console.error('EXCHANGE_LOG_STORE=redis but REDIS_URL is not set - falling back to memory store');
+    }
+    exchangeLogStore = createMemoryExchangeLogStore();
+  }
+
+  console.log('Exchange log store:', exchangeLogStore.backend);
+  return exchangeLogStore;
+}
+
+// Never throws - a logging failure must not cost the customer their answer
+export async function logExchange(exchange: Omit<ExchangeRecord, 'id' | 'timestamp' | 'flagged'> & { flagged?: boolean }): Promise<ExchangeRecord | null> {
+  const now = new Date();
+  const record: ExchangeRecord = Object.assign({
+    id: createExchangeId(now),
+    timestamp: now.toISOString(),
+    flagged: false
+  }, exchange);
+
+  try {
+    await getExchangeLogStore().append(record);
+    console.log('Exchange logged:', record.id, record.model, `${record.latencyMs}ms`);
+    return record;
+  } catch (error) {
+    console.error('Exchange log error:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${to}T00:00:00Z`);
+  const start = new Date(`${from}T00:00:00Z`);
+  while (cursor >= start && days.length < MAX_SEARCH_DAYS) {
+    days.push(cursor.toISOString().substring(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  return days;
+}
+
+// Newest first; dates are UTC days and the range is capped at MAX_SEARCH_DAYS
+export async function searchExchanges(search: ExchangeSearch): Promise<ExchangeRecord[]> {
+  const today = new Date().toISOString().substring(0, 10);
+  const to = search.to && DAY_PATTERN.test(search.to) ? search.to : today;
+  const defaultFrom = new Date(`${to}T00:00:00Z`);
+  defaultFrom.setUTCDate(defaultFrom.getUTCDate() - (DEFAULT_SEARCH_DAYS - 1));
+  const from = search.from && DAY_PATTERN.test(search.from) ? search.from : defaultFrom.toISOString().substring(0, 10);
+
+  const sku = search.sku?.trim().toLowerCase();
+  const limit = Math.min(search.limit || MAX_SEARCH_RESULTS, MAX_AGGREGATE_RECORDS);
+  const store = getExchangeLogStore();
+
+  const results: ExchangeRecord[] = [];
+  for (const day of listDays(from, to)) {
+    const records = await store.listDay(day);
+    records
+      .filter(record => !sku || record.productTitle.toLowerCase().includes(sku))
+      .filter(record => !search.conversationId || record.conversationId === search.conversationId)
+      .filter(record => !search.flaggedOnly || record.flagged)
+      .filter(record => !search.lowConfidenceOnly || record.lowConfidence)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .forEach(record => results.push(record));
+    if (results.length >= limit) break;
+  }
+
+  return results.slice(0, limit);
+}
+
+async function updateExchange(id: string, changes: Partial<ExchangeRecord>): Promise<ExchangeRecord | null> {
+  const store = getExchangeLogStore();
+  const record = (await store.listDay(id.substring(0, 10))).find(existing => existing.id === id);
+  if (!record) return null;
+
+  const updated: ExchangeRecord = Object.assign({}, record, changes);
+  await store.update(updated);
+  return updated;
+}
+
+export async function flagExchange(id: string, flagged: boolean, note?: string): Promise<ExchangeRecord | null> {
+  const updated = await updateExchange(id, {
+    flagged,
+    flagNote: flagged ? (note || '').substring(0, 1000) : undefined,
+    flaggedAt: flagged ? new Date().toISOString() : undefined
+  });
+  if (updated) console.log('Exchange flagged:', id, flagged);
+  return updated;
+}
+
+// Customer thumbs up/down - a second rating for the same answer replaces the first
+export async function recordFeedback(id: string, rating: FeedbackRating, comment?: string): Promise<ExchangeRecord | null> {
+  const updated = await updateExchange(id, {
+    feedback: {
+      rating,
+      comment: comment ? comment.substring(0, 1000) : undefined,
+      submittedAt: new Date().toISOString()
+    }
+  });
+  if (updated) console.log('Feedback recorded:', id, rating);
+  return updated;
+}
+
+// Per-SKU feedback totals, worst first - a high thumbs-down rate alongside datasheet
+// failures usually means the datasheet extraction for that product is broken
+export async function getFeedbackBySku(search: ExchangeSearch): Promise<SkuFeedbackSummary[]> {
+  const exchanges = await searchExchanges(Object.assign({}, search, { limit: MAX_AGGREGATE_RECORDS }));
+  const summaries = new Map<string, SkuFeedbackSummary>();
+
+  exchanges.forEach(exchange => {
+    const sku = extractModelNumber(exchange.productTitle) || exchange.productTitle;
+    let summary = summaries.get(sku);
+    if (!summary) {
+      summary = { sku, exchanges: 0, thumbsUp: 0, thumbsDown: 0, downRate: 0, datasheetFailures: 0, recentComments: [] };
+      summaries.set(sku, summary);
+    }
+
+    summary.exchanges++;
+    if (exchange.datasheetStatus === 'failed') summary.datasheetFailures++;
+    if (exchange.feedback?.rating === 'up') summary.thumbsUp++;
+    if (exchange.feedback?.rating === 'down') {
+      summary.thumbsDown++;
+      if (exchange.feedback.comment && summary.recentComments.length < 3) {
+        summary.recentComments.push(exchange.feedback.comment);
+      }
+    }
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => {
+      const rated = summary.thumbsUp + summary.thumbsDown;
+      summary.downRate = rated > 0 ? Math.round((summary.thumbsDown / rated) * 100) / 100 : 0;
+      return summary;
+    })
+    .sort((a, b) => b.thumbsDown - a.thumbsDown || b.datasheetFailures - a.datasheetFailures || b.exchanges - a.exchanges);
+}
+
+// Daily estimated spend per model and how often each routing rule picked the model
+export async function getSpendSummary(search: ExchangeSearch): Promise<SpendSummary> {
+  const exchanges = await searchExchanges(Object.assign({}, search, { limit: MAX_AGGREGATE_RECORDS }));
+  const days = new Map<string, DailyModelSpend>();
+  const rules = new Map<string, RoutingRuleCount>();
+  let totalCostUsd = 0;
+
+  exchanges.forEach(exchange => {
+    const day = dayOf(exchange.timestamp);
+    (exchange.modelUsage || []).forEach(usage => {
+      const key = `${day}:${usage.model}`;
+      let spend = days.get(key);
+      if (!spend) {
+        spend = { day, model: usage.model, calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+        days.set(key, spend);
+      }
+      spend.calls++;
+      spend.promptTokens += usage.promptTokens;
+      spend.completionTokens += usage.completionTokens;
+      spend.costUsd += usage.costUsd;
+      totalCostUsd += usage.costUsd;
+    });
+
+    if (exchange.routingRule) {
+      const key = `${exchange.routingRule}:${exchange.model}`;
+      const count = rules.get(key) || { rule: exchange.routingRule, model: exchange.model, count: 0 };
+      count.count++;
+      rules.set(key, count);
+    }
+  });
+
+  const roundCost = (cost: number) => Math.round(cost * 10000) / 10000;
+  return {
+    days: Array.from(days.values())
+      .map(spend => Object.assign(spend, { costUsd: roundCost(spend.costUsd) }))
+      .sort((a, b) => b.day.localeCompare(a.day) || b.costUsd - a.costUsd),
+    rules: Array.from(rules.values()).sort((a, b) => b.count - a.count),
+    totalCostUsd: roundCost(totalCostUsd)
+  };
+}
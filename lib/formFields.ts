@@ -0,0 +1,28 @@
+// Validation for customer-entered fields on the public widget routes (handoff, RFQ, events).
+// Everything is stored and forwarded as plain text - it ends up in emails, chat tools and admin tables.
+
+export const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+export const PHONE_PATTERN = /^[0-9+()\-.\s]{5,30}$/;
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/; // Widget session id (sessionStorage)
+
+const MAX_FIELD_LENGTH = 200;
+const MAX_URL_LENGTH = 2000;
+
+// Markup is stripped and the text capped; single-line fields also lose their line
+// breaks so a name can't fake extra lines in a ticket
+export function cleanText(value: unknown, maxLength: number = MAX_FIELD_LENGTH, multiline: boolean = false): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const stripped = value.replace(/<[^>]*>/g, '');
+  const text = (multiline ? stripped : stripped.replace(/\s+/g, ' ')).trim().substring(0, maxLength);
+  return text || undefined;
+}
+
+export function isPageUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,191 @@
+// Human handoff - packages an Ask Ed conversation into a ticket for a Bravo Power Expert
+// so the customer doesn't have to repeat themselves. Channels: smtp (email), webhook
+// (generic JSON POST, Slack-compatible "text") and file (one JSON file per ticket, for testing)
+import fs from 'fs';
+import { ChatTurn } from './conversationMemory';
+import { getDataPath } from './dataDir';
+import { searchExchanges } from './exchangeLog';
+import { createReference, postSignedJson } from './leadDelivery';
+import { sendSmtpMail } from './smtpClient';
+
+export interface HandoffContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+}
+
+export interface HandoffTurn {
+  role: 'customer' | 'askEd';
+  text: string;
+  timestamp?: string; // Only known for turns read from the exchange log
+  exchangeId?: string;
+}
+
+export interface HandoffTicket {
+  reference: string; // Given to the customer, e.g. BPE-20241217-7K2Q9F
+  createdAt: string; // ISO 8601
+  conversationId?: string;
+  sku?: string;
+  productTitle?: string;
+  pageUrl: string;
+  customer: HandoffContact;
+  message?: string; // What the customer wants the expert to know
+  transcript: HandoffTurn[];
+  transcriptSource: 'exchangeLog' | 'widget' | 'none';
+}
+
+export interface HandoffChannel {
+  readonly name: string;
+  deliver(ticket: HandoffTicket): Promise<void>;
+}
+
+const MAX_TRANSCRIPT_TURNS = 40;
+
+// The server-side exchange log is preferred - it has exactly what Ed answered. The
+// widget's own history is used when the log has nothing (e.g. a per-instance memory store).
+export async function buildHandoffTranscript(
+  conversationId: string | undefined,
+  widgetTurns: ChatTurn[]
+): Promise<{ transcript: HandoffTurn[]; source: HandoffTicket['transcriptSource'] }> {
+  if (conversationId) {
+    const exchanges = await searchExchanges({ conversationId, limit: MAX_TRANSCRIPT_TURNS / 2 });
+    if (exchanges.length > 0) {
+      const transcript: HandoffTurn[] = [];
+      exchanges.slice().reverse().forEach(exchange => {
+        transcript.push({ role: 'customer', text: exchange.question, timestamp: exchange.timestamp });
+        transcript.push({
+          role: 'askEd',
+          text: exchange.answer.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').trim(),
+          timestamp: exchange.timestamp,
+          exchangeId: exchange.id
+        });
+      });
+      return { transcript, source: 'exchangeLog' };
+    }
+  }
+
+  if (widgetTurns.length > 0) {
+    return {
+      transcript: widgetTurns.slice(-MAX_TRANSCRIPT_TURNS).map(turn => ({
+        role: turn.role === 'user' ? 'customer' : 'askEd',
+        text: turn.content
+      })),
+      source: 'widget'
+    };
+  }
+
+  return { transcript: [], source: 'none' };
+}
+
+// Plain text ticket for email bodies and chat webhooks
+export function formatHandoffText(ticket: HandoffTicket): string {
+  const contact = ticket.customer;
+  const lines = [
+    `Ask Ed handoff ${ticket.reference}`,
+    '',
+    `Product: ${ticket.productTitle || '-'}${ticket.sku ? ` (SKU ${ticket.sku})` : ''}`,
+    `Page: ${ticket.pageUrl}`,
+    `Customer: ${[contact.name, contact.company].filter(Boolean).join(', ') || '-'}`,
+    `Email: ${contact.email || '-'}`,
+    `Phone: ${contact.phone || '-'}`
+  ];
+  if (!contact.email && !contact.phone) {
+    lines.push('No contact details - the customer was asked to quote the reference by phone or web chat.');
+  }
+  if (ticket.message) {
+    lines.push('', 'Message from the customer:', ticket.message);
+  }
+
+  lines.push('', `Conversation${ticket.conversationId ? ` ${ticket.conversationId}` : ''}:`);
+  if (ticket.transcript.length === 0) {
+    lines.push('(no questions asked yet)');
+  }
+  ticket.transcript.forEach(turn => {
+    const time = turn.timestamp ? ` [${turn.timestamp.replace('T', ' ').substring(0, 16)} UTC]` : '';
+    lines.push('', `${turn.role === 'customer' ? 'Customer' : 'Ask Ed'}${time}:`, turn.text);
+  });
+  return lines.join('\n');
+}
+
+export function createSmtpHandoffChannel(options: { smtpUrl: string; from: string; to: string[] }): HandoffChannel {
+  return {
+    name: 'smtp',
+    async deliver(ticket) {
+      await sendSmtpMail(options.smtpUrl, {
+        from: options.from,
+        to: options.to,
+        subject: `Ask Ed handoff ${ticket.reference}: ${ticket.sku || ticket.productTitle || 'product question'}`,
+        text: formatHandoffText(ticket),
+        replyTo: ticket.customer.email
+      });
+    }
+  };
+}
+
+// JSON POST with the ticket and a plain text rendering; signed with HMAC-SHA256 when a secret is set
+export function createWebhookHandoffChannel(options: { url: string; secret?: string }): HandoffChannel {
+  return {
+    name: 'webhook',
+    async deliver(ticket) {
+      await postSignedJson(options.url, { type: 'ask_ed.handoff', text: formatHandoffText(ticket), ticket }, options.secret, 'Handoff webhook');
+    }
+  };
+}
+
+// One JSON file per ticket - meant for local development and testing
+export function createFileHandoffChannel(): HandoffChannel {
+  return {
+    name: 'file',
+    async deliver(ticket) {
+      fs.writeFileSync(getDataPath('handoffs', `${ticket.reference}.json`), JSON.stringify(ticket, null, 2));
+    }
+  };
+}
+
+let handoffChannel: HandoffChannel | null = null;
+
+// HANDOFF_CHANNEL=smtp|webhook|file - defaults to smtp when SMTP_URL is set, then webhook
+// when HANDOFF_WEBHOOK_URL is set, otherwise file
+export function getHandoffChannel(): HandoffChannel {
+  if (handoffChannel) return handoffChannel;
+
+  const smtpUrl = process.env.SMTP_URL;
+  const emailTo = (process.env.HANDOFF_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+  const webhookUrl = process.env.HANDOFF_WEBHOOK_URL;
+  const channelType = process.env.HANDOFF_CHANNEL || (smtpUrl ? 'smtp' : webhookUrl ? 'webhook' : 'file');
+
+  if (channelType === 'smtp' && smtpUrl && emailTo.length > 0) {
+    handoffChannel = createSmtpHandoffChannel({
+      smtpUrl,
+      from: process.env.HANDOFF_EMAIL_FROM || 'Ask Ed <ask-ed@bravoelectro.com>',
+      to: emailTo
+    });
+  } else if (channelType === 'webhook' && webhookUrl) {
+    handoffChannel = createWebhookHandoffChannel({ url: webhookUrl, secret: process.env.HANDOFF_WEBHOOK_SECRET });
+  } else {
+    if (channelType === 'smtp') {
+      console.error('HANDOFF_CHANNEL=smtp needs SMTP_URL and HANDOFF_EMAIL_TO - falling back to file channel');
+    } else if (channelType === 'webhook') {
+      console.error('HANDOFF_CHANNEL=webhook but HANDOFF_WEBHOOK_URL is not set - falling back to file channel');
+    }
+    handoffChannel = createFileHandoffChannel();
+  }
+
+  console.log('Handoff channel:', handoffChannel.name);
+  return handoffChannel;
+}
+
+// Throws when the channel can't deliver - the customer must not get a reference for a lost ticket
+export async function createHandoff(handoff: Omit<HandoffTicket, 'reference' | 'createdAt'>): Promise<HandoffTicket> {
+  const now = new Date();
+  const ticket: HandoffTicket = Object.assign({
+    reference: createReference('BPE', now),
+    createdAt: now.toISOString()
+  }, handoff);
+
+  const channel = getHandoffChannel();
+  await channel.deliver(ticket);
+  console.log('Handoff delivered:', ticket.reference, channel.name, `${ticket.transcript.length} turns`);
+  return ticket;
+}
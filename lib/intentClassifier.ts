@@ -0,0 +1,126 @@
+// Local intent classifier - runs before the completion call so pricing, stock
+// and RFQ questions get the vetted template wording without an OpenAI request
+import { classifySafety } from './safetyClassifier';
+
+export type AskIntent =
+  | 'pricing'
+  | 'volumePricing'
+  | 'stockInfo'
+  | 'accessories'
+  | 'similarProducts'
+  | 'safetyCritical'
+  | 'generalSpec';
+
+export interface IntentResult {
+  intent: AskIntent;
+  confidence: number; // 0-1
+  matchedKeywords: string[];
+}
+
+interface IntentRule {
+  intent: AskIntent;
+  strong: RegExp[]; // A single match is enough for high confidence
+  weak: RegExp[];   // Suggestive, but also common in spec questions
+}
+
+const INTENT_RULES: IntentRule[] = [
+  {
+    intent: 'volumePricing',
+    strong: [/\bvolume pric/, /\bbulk (pric|order|discount|rate)/, /\bquantity (pric|discount|break)/, /\bwholesale\b/, /\bprice breaks?\b/, /\b\d+\s*(pcs|pieces|units)\b.*\b(price|cost|quote)\b/, /\b(price|cost|quote|how much)\b.*\b\d+\s*(pcs|pieces|units)\b/],
+    weak: [/\bbulk\b/, /\bbetter price\b/, /\bdiscount\b/]
+  },
+  {
+    intent: 'pricing',
+    // "How much" alone also starts spec questions ("How much does it weigh?")
+    strong: [/\bprice\b/, /\bpricing\b/, /\bhow much (is|are|for) (it|this|that|these|they|one|each|a|an|the)\b/, /\bcost\b/, /\bquote\b/, /\brfq\b/],
+    weak: [/\bhow much\b/, /\bdiscount\b/, /\bcheap/, /\bexpensive\b/]
+  },
+  {
+    intent: 'stockInfo',
+    strong: [/\bin stock\b/, /\bstock\b/, /\binventory\b/, /\blead time\b/, /\bwhen (will it|can i get|available)\b/, /\bback ?order/],
+    weak: [/\bavailab/, /\bship(ping)?\b/, /\bdelivery\b/]
+  },
+  {
+    intent: 'accessories',
+    strong: [/\baccessor/, /\bwhat do i need to connect\b/, /\bmating connector/],
+    weak: [/\bconnectors?\b/, /\bcables?\b/, /\bplugs?\b/, /\bmounting (bracket|kit)/]
+  },
+  {
+    intent: 'similarProducts',
+    strong: [/\balternatives?\b/, /\bsimilar products?\b/, /\bcross[\s-]?reference\b/, /\bother options\b/, /\breplacement for\b/, /\bequivalent\b/],
+    weak: [/\bsimilar\b/, /\binstead\b/]
+  }
+];
+
+// Spec vocabulary - a template intent mixed with a spec question needs the full pipeline
+const SPEC_KEYWORDS = [
+  /\bvolt/, /\bcurrent\b/, /\bamps?\b/, /\bwatt/, /\befficien/, /\bdimm/, /\bip ?\d{2}\b/, /\bip rating\b/,
+  /\btemperature\b/, /\bdimension/, /\bsize\b/, /\bweigh/, /\bpower\b(?!\s*suppl)/, /\bripple\b/, /\bderating\b/,
+  /\badjust/, /\bprotection\b/, /\bmtbf\b/, /\bwarranty\b/, /\bcertif/, /\bul\b/
+];
+
+const STRONG_CONFIDENCE = 0.9;
+const SAFETY_CONFIDENCE = 0.95;
+const WEAK_CONFIDENCE = 0.6;
+const MIXED_INTENT_PENALTY = 0.3;
+
+export function classifyIntent(question: string): IntentResult {
+  const questionLower = question.toLowerCase();
+
+  // Safety always wins - it must never be short-circuited into a sales template (config/safety.json)
+  const safety = classifySafety(question);
+  if (safety) {
+    return { intent: 'safetyCritical', confidence: SAFETY_CONFIDENCE, matchedKeywords: safety.matchedPatterns };
+  }
+
+  const scored = INTENT_RULES.map(rule => {
+    const strongMatches = rule.strong.filter(pattern => pattern.test(questionLower));
+    const weakMatches = rule.weak.filter(pattern => pattern.test(questionLower));
+
+    let confidence = 0;
+    if (strongMatches.length > 0) {
+      confidence = Math.min(0.99, STRONG_CONFIDENCE + 0.05 * (strongMatches.length - 1) + 0.02 * weakMatches.length);
+    } else if (weakMatches.length > 0) {
+      confidence = WEAK_CONFIDENCE;
+    }
+
+    return {
+      intent: rule.intent,
+      confidence,
+      matchedKeywords: strongMatches.concat(weakMatches).map(pattern => pattern.source)
+    };
+  }).filter(result => result.confidence > 0);
+
+  const specMatches = SPEC_KEYWORDS.filter(pattern => pattern.test(questionLower));
+
+  if (scored.length === 0) {
+    return {
+      intent: 'generalSpec',
+      confidence: specMatches.length > 0 ? 0.8 : 0.5,
+      matchedKeywords: specMatches.map(pattern => pattern.source)
+    };
+  }
+
+  // Volume pricing is a refinement of pricing, not a competing intent
+  const distinct = scored.filter(result =>
+    !(result.intent === 'pricing' && scored.some(other => other.intent === 'volumePricing' && other.confidence >= STRONG_CONFIDENCE))
+  );
+  distinct.sort((a, b) => b.confidence - a.confidence);
+
+  const best = Object.assign({}, distinct[0]);
+  if (distinct.length > 1) best.confidence -= MIXED_INTENT_PENALTY;
+  if (specMatches.length > 0) best.confidence -= MIXED_INTENT_PENALTY;
+  best.confidence = Math.max(0, Math.round(best.confidence * 100) / 100);
+
+  // "How much current..." or "Is dimming available?" are spec questions that merely share a keyword -
+  // a spec term always overrides a weak match
+  if (specMatches.length > 0 && best.confidence <= WEAK_CONFIDENCE) {
+    return {
+      intent: 'generalSpec',
+      confidence: 0.8,
+      matchedKeywords: specMatches.map(pattern => pattern.source)
+    };
+  }
+
+  return best;
+}
@@ -0,0 +1,157 @@
+// Key/value storage backends shared by caches and counters
+// memory (per instance), file (local disk, one JSON file per key) and redis (shared)
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataPath } from './dataDir';
+import { getRedisClient } from './redisClient';
+
+export interface KeyValueStore {
+  readonly backend: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  increment(key: string): Promise<number>;
+  count(prefix: string): Promise<number>;
+}
+
+interface StoredValue {
+  key: string;
+  value: string;
+  expiresAt: number | null;
+}
+
+const MAX_MEMORY_ENTRIES = 1000;
+
+export function createMemoryKeyValueStore(): KeyValueStore {
+  const entries = new Map<string, StoredValue & { lastUsed: number }>();
+
+  const isExpired = (entry: StoredValue) => entry.expiresAt !== null && Date.now() > entry.expiresAt;
+
+  return {
+    backend: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry || isExpired(entry)) return null;
+      entry.lastUsed = Date.now();
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      // Remove least recently used entries once over the limit
+      if (entries.size >= MAX_MEMORY_ENTRIES) {
+        const sorted = Array.from(entries.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        sorted.slice(0, entries.size - MAX_MEMORY_ENTRIES + 1).forEach(([oldKey]) => entries.delete(oldKey));
+      }
+      entries.set(key, { key, value, expiresAt: ttlMs ? Date.now() + ttlMs : null, lastUsed: Date.now() });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async increment(key) {
+      const current = parseInt((await this.get(key)) || '0', 10);
+      await this.set(key, String(current + 1));
+      return current + 1;
+    },
+    async count(prefix) {
+      let total = 0;
+      entries.forEach((entry, key) => {
+        if (key.startsWith(prefix) && !isExpired(entry)) total++;
+      });
+      return total;
+    }
+  };
+}
+
+export function createFileKeyValueStore(directory: string = path.dirname(getDataPath('kv', '.keep'))): KeyValueStore {
+  const filePathFor = (key: string) => path.join(directory, crypto.createHash('sha1').update(key).digest('hex') + '.json');
+
+  const read = (filePath: string): StoredValue | null => {
+    try {
+      const entry: StoredValue = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
+        fs.unlinkSync(filePath);
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return {
+    backend: 'file',
+    async get(key) {
+      return read(filePathFor(key))?.value ?? null;
+    },
+    async set(key, value, ttlMs) {
+      const entry: StoredValue = { key, value, expiresAt: ttlMs ? Date.now() + ttlMs : null };
+      fs.writeFileSync(filePathFor(key), JSON.stringify(entry));
+    },
+    async delete(key) {
+      try {
+        fs.unlinkSync(filePathFor(key));
+      } catch (error) {
+        // Already gone
+      }
+    },
+    async increment(key) {
+      const current = parseInt((await this.get(key)) || '0', 10);
+      await this.set(key, String(current + 1));
+      return current + 1;
+    },
+    async count(prefix) {
+      return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.json'))
+        .map(file => read(path.join(directory, file)))
+        .filter(entry => entry && entry.key.startsWith(prefix))
+        .length;
+    }
+  };
+}
+
+export function createRedisKeyValueStore(redisUrl: string): KeyValueStore {
+  const redis = getRedisClient(redisUrl);
+
+  return {
+    backend: 'redis',
+    async get(key) {
+      const value = await redis.command(['GET', key]);
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value, ttlMs) {
+      await redis.command(ttlMs ? ['SET', key, value, 'PX', ttlMs] : ['SET', key, value]);
+    },
+    async delete(key) {
+      await redis.command(['DEL', key]);
+    },
+    async increment(key) {
+      return Number(await redis.command(['INCR', key]));
+    },
+    async count(prefix) {
+      let total = 0;
+      let cursor = '0';
+      do {
+        const reply = await redis.command(['SCAN', cursor, 'MATCH', `${prefix}*`, 'COUNT', 500]) as [string, string[]];
+        cursor = reply[0];
+        total += reply[1].length;
+      } while (cursor !== '0');
+      return total;
+    }
+  };
+}
+
+// Pick a backend from an env setting (memory|file|redis) - redis by default when REDIS_URL is set
+export function createKeyValueStore(storeType: string | undefined): KeyValueStore {
+  const resolvedType = storeType || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (resolvedType === 'redis' && process.env.REDIS_URL) {
+    return createRedisKeyValueStore(process.env.REDIS_URL);
+  }
+  if (resolvedType === 'file') {
+    return createFileKeyValueStore();
+  }
+  if (resolvedType === 'redis') {
+    console.error('Redis store requested but REDIS_URL is not set - falling back to memory store');
+  }
+  return createMemoryKeyValueStore();
+}
@@ -0,0 +1,130 @@
+// Language rules - rewrites the phrases listed in config/ask-ed.json languageRules on
+// every answer, so the wording no longer depends on the model following the prompt.
+// Replacements that start with a capital letter are complete sentences and replace the
+// whole sentence containing the phrase; lower-case replacements swap the phrase in place.
+import { AskEdLanguageRules } from './askEdConfig';
+
+export interface LanguageRuleHit {
+  phrase: string;
+  replacement: string | null; // null - forbidden phrase without a replacement, left in place
+  scope: 'phrase' | 'sentence' | 'none';
+  count: number;
+}
+
+export interface LanguageRulesResult {
+  text: string;
+  hits: LanguageRuleHit[];
+}
+
+interface LanguageRule {
+  phrase: string;
+  replacement: string | null;
+  pattern: RegExp;
+}
+
+// A determiner before the phrase is dropped when the replacement brings its own:
+// "the provided product specifications" -> "my database", not "the my database"
+const DETERMINERS = ['a', 'an', 'any', 'my', 'our', 'the', 'these', 'this', 'your'];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive, whole words, straight or curly apostrophes
+function phrasePattern(phrase: string): RegExp {
+  const body = escapeRegExp(phrase.trim()).replace(/'/g, '[\'’]').replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|[^\\w])(${body})(?![\\w])`, 'gi');
+}
+
+function buildRules(rules: AskEdLanguageRules): LanguageRule[] {
+  const list: LanguageRule[] = [];
+  const covered: string[] = [];
+  Object.keys(rules.replacements).forEach(replacement => {
+    rules.replacements[replacement].forEach(phrase => {
+      covered.push(phrase.toLowerCase());
+      list.push({ phrase, replacement, pattern: phrasePattern(phrase) });
+    });
+  });
+  rules.forbiddenPhrases
+    .filter(phrase => covered.indexOf(phrase.toLowerCase()) === -1)
+    .forEach(phrase => list.push({ phrase, replacement: null, pattern: phrasePattern(phrase) }));
+
+  // Longest first, so "product specifications or detailed datasheet" wins over "detailed datasheet"
+  return list.sort((a, b) => b.phrase.length - a.phrase.length);
+}
+
+function sentenceStart(text: string, index: number): number {
+  const boundaryPattern = /[.!?]["')\]]*\s+|\n/g;
+  const before = text.substring(0, index);
+  let start = 0;
+  let boundary: RegExpExecArray | null;
+  while ((boundary = boundaryPattern.exec(before)) !== null) {
+    start = boundary.index + boundary[0].length;
+  }
+  return start;
+}
+
+function sentenceEnd(text: string, index: number): number {
+  const boundary = /[.!?]+["')\]]*(?=\s|$)|\n/.exec(text.substring(index));
+  return boundary ? index + boundary.index + (boundary[0] === '\n' ? 0 : boundary[0].length) : text.length;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.substring(1);
+}
+
+function isSentenceReplacement(replacement: string): boolean {
+  return /^[A-Z]/.test(replacement);
+}
+
+export function applyLanguageRules(text: string, rules: AskEdLanguageRules): LanguageRulesResult {
+  const hits: LanguageRuleHit[] = [];
+  let result = text;
+
+  buildRules(rules).forEach(rule => {
+    let count = 0;
+    const scope = rule.replacement === null ? 'none' : isSentenceReplacement(rule.replacement) ? 'sentence' : 'phrase';
+    let match: RegExpExecArray | null;
+    rule.pattern.lastIndex = 0;
+
+    while ((match = rule.pattern.exec(result)) !== null) {
+      count++;
+      const phraseStart = match.index + match[1].length;
+      const phraseEnd = phraseStart + match[2].length;
+
+      if (rule.replacement === null) continue;
+
+      if (scope === 'sentence') {
+        const start = sentenceStart(result, phraseStart);
+        const end = sentenceEnd(result, phraseEnd);
+        const punctuation = (result.substring(start, end).match(/[.!?]+["')\]]*$/) || ['.'])[0];
+        const sentence = rule.replacement.replace(/[.!?]+$/, '') + punctuation;
+        result = result.substring(0, start) + sentence + result.substring(end);
+        rule.pattern.lastIndex = start + sentence.length;
+        continue;
+      }
+
+      // Phrase in place - absorb a duplicate determiner and keep sentence-initial capitals
+      let start = phraseStart;
+      const replacementWords = rule.replacement.split(/\s+/);
+      const previousWord = /(\w+)(\s+)$/.exec(result.substring(0, phraseStart));
+      if (previousWord && DETERMINERS.indexOf(previousWord[1].toLowerCase()) !== -1 && DETERMINERS.indexOf(replacementWords[0].toLowerCase()) !== -1) {
+        start = previousWord.index;
+      }
+      const atSentenceStart = sentenceStart(result, start) === start;
+      const replacement = atSentenceStart ? capitalize(rule.replacement) : rule.replacement;
+      result = result.substring(0, start) + replacement + result.substring(phraseEnd);
+      rule.pattern.lastIndex = start + replacement.length;
+    }
+
+    if (count > 0) hits.push({ phrase: rule.phrase, replacement: rule.replacement, scope, count });
+  });
+
+  // "my database or my database" when two phrases with the same replacement were listed together
+  hits.filter(hit => hit.scope === 'phrase').forEach(hit => {
+    const replacement = escapeRegExp(hit.replacement || '');
+    result = result.replace(new RegExp(`\\b(${replacement})\\s+(?:or|and)\\s+${replacement}\\b`, 'gi'), '$1');
+  });
+
+  return { text: result, hits };
+}
@@ -0,0 +1,39 @@
+// Shared delivery helpers for expert handoff tickets and quote requests
+import crypto from 'crypto';
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LEAD_DELIVERY_TIMEOUT_MS || process.env.HANDOFF_TIMEOUT_MS || '10000', 10);
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I - read out over the phone
+
+// PREFIX-YYYYMMDD-XXXXXX, e.g. BPE-20241217-7K2Q9F
+export function createReference(prefix: string, date: Date = new Date()): string {
+  const bytes = crypto.randomBytes(6);
+  let suffix = '';
+  for (let i = 0; i < bytes.length; i++) {
+    suffix += REFERENCE_ALPHABET.charAt(bytes[i] % REFERENCE_ALPHABET.length);
+  }
+  return `${prefix}-${date.toISOString().substring(0, 10).replace(/-/g, '')}-${suffix}`;
+}
+
+// POST with a timeout; throws on a non-2xx response so the caller can report the failure
+export async function postWithTimeout(url: string, body: string, headers: { [name: string]: string }, label: string): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`${label} ${response.status} ${response.statusText}`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// JSON POST, signed with HMAC-SHA256 in X-Ask-Ed-Signature when a secret is set
+export async function postSignedJson(url: string, payload: unknown, secret: string | undefined, label: string): Promise<void> {
+  const body = JSON.stringify(payload);
+  const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+  if (secret) {
+    headers['X-Ask-Ed-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+  await postWithTimeout(url, body, headers, label);
+}
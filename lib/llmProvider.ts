@@ -0,0 +1,324 @@
+// LLM providers - OpenAI, any OpenAI-compatible server (vLLM, Ollama, llama.cpp) and a
+// deterministic mock, tried in order with per-attempt timeouts and retries.
+// LLM_PROVIDERS=openai,openai:gpt-4o-mini,compatible,mock (provider[:model], first is primary)
+import OpenAI from 'openai';
+import type { TokenUsage } from './exchangeLog';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface CompletionChunk {
+  content: string;
+  usage?: TokenUsage;
+  restart?: boolean; // The provider stalled mid-answer and the next one starts over - drop what was streamed
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage | null;
+  provider: string;
+  model: string; // Model that actually answered - differs from the request after a fallback
+}
+
+export interface CompletionStream {
+  chunks: AsyncIterable<CompletionChunk>;
+  provider: string; // Updated when a stalled stream fails over
+  model: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<{ content: string; usage: TokenUsage | null }>;
+  stream(request: CompletionRequest, signal: AbortSignal): AsyncIterable<CompletionChunk>;
+}
+
+export interface LlmChainEntry {
+  provider: LlmProvider;
+  model?: string; // Overrides the routed model, e.g. a cheaper secondary model
+}
+
+export interface LlmProviderChain {
+  readonly description: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): Promise<CompletionStream>;
+}
+
+const TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '20000', 10);
+const STREAM_IDLE_TIMEOUT_MS = parseInt(process.env.LLM_STREAM_IDLE_TIMEOUT_MS || '10000', 10);
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '1', 10);
+const RETRY_DELAY_MS = 250;
+
+function toTokenUsage(usage: OpenAI.Completions.CompletionUsage): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+}
+
+// includeUsage: ask for a final usage chunk when streaming (not every compatible server supports it)
+export function createOpenAIProvider(name: string, options: { apiKey?: string; baseURL?: string; includeUsage?: boolean }): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  const includeUsage = options.includeUsage !== false;
+
+  return {
+    name,
+    async complete(request, signal) {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      }, { signal });
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        usage: completion.usage ? toTokenUsage(completion.usage) : null
+      };
+    },
+    async *stream(request, signal) {
+      const stream = await client.chat.completions.create(Object.assign({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true as const
+      }, includeUsage ? { stream_options: { include_usage: true } } : {}), { signal });
+
+      for await (const chunk of stream) {
+        yield {
+          content: chunk.choices[0]?.delta?.content || '',
+          usage: chunk.usage ? toTokenUsage(chunk.usage) : undefined
+        };
+      }
+    }
+  };
+}
+
+// Same answer for the same question - for local development and CI without an API key
+export function createMockProvider(): LlmProvider {
+  const answerFor = (request: CompletionRequest) => {
+    const userMessage = request.messages.filter(message => message.role === 'user').pop();
+    const questionMatch = (userMessage ? userMessage.content : '').match(/Question: ([^\n]*)\s*$/);
+    const question = questionMatch ? questionMatch[1].trim() : 'your question';
+    return `This is a mock answer to "${question}". I don't have that information in my database. Please check the datasheet or contact a Bravo Power Expert via web chat or call 408-733-9090.`;
+  };
+  const usageFor = (request: CompletionRequest, content: string): TokenUsage => {
+    const promptTokens = Math.ceil(JSON.stringify(request.messages).length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  };
+
+  return {
+    name: 'mock',
+    async complete(request) {
+      const content = answerFor(request);
+      return { content, usage: usageFor(request, content) };
+    },
+    async *stream(request) {
+      const content = answerFor(request);
+      for (const piece of content.match(/\S+\s*/g) || []) {
+        yield { content: piece };
+      }
+      yield { content: '', usage: usageFor(request, content) };
+    }
+  };
+}
+
+// Timeouts, rate limits, 5xx and connection failures are worth another attempt; 4xx are not
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIError) {
+    return error.status === undefined || error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Aborts the attempt after TIMEOUT_MS; for streams the timeout covers the first chunk and
+// STREAM_IDLE_TIMEOUT_MS covers each chunk after it
+async function withTimeout<T>(attempt: (signal: AbortSignal) => Promise<T>, label: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${TIMEOUT_MS}ms`));
+    }, TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([attempt(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Resolves null instead of a chunk when the provider goes quiet, after aborting its request
+async function nextWithIdleTimeout(iterator: AsyncIterator<CompletionChunk>, controller: AbortController): Promise<IteratorResult<CompletionChunk> | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const pending = iterator.next();
+  pending.catch(() => undefined); // The aborted request rejects after the race is decided
+  const idle = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(null);
+    }, STREAM_IDLE_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([pending, idle]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface OpenedStream {
+  iterator: AsyncIterator<CompletionChunk>;
+  first: IteratorResult<CompletionChunk>;
+  controller: AbortController;
+  entryIndex: number;
+  label: string;
+  provider: string;
+  model: string;
+}
+
+export function createLlmProviderChain(entries: LlmChainEntry[]): LlmProviderChain {
+  // Every entry gets MAX_RETRIES extra attempts before the chain moves on to the next one
+  const run = async <T>(request: CompletionRequest, attempt: (entry: LlmChainEntry, request: CompletionRequest, signal: AbortSignal) => Promise<T>, firstEntry: number = 0): Promise<T> => {
+    let lastError: unknown = new Error(firstEntry > 0 ? 'No LLM provider left to fail over to' : 'No LLM providers configured');
+
+    for (const entry of entries.slice(firstEntry)) {
+      const entryRequest = Object.assign({}, request, { model: entry.model || request.model });
+      const label = `${entry.provider.name}:${entryRequest.model}`;
+
+      for (let retry = 0; retry <= MAX_RETRIES; retry++) {
+        try {
+          return await withTimeout(signal => attempt(entry, entryRequest, signal), label);
+        } catch (error) {
+          lastError = error;
+          console.error('LLM provider error:', label, `attempt ${retry + 1}:`, describeError(error));
+          if (!isRetryable(error)) break;
+          if (retry < MAX_RETRIES) await delay(RETRY_DELAY_MS * Math.pow(2, retry));
+        }
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    description: entries.map(entry => entry.model ? `${entry.provider.name}:${entry.model}` : entry.provider.name).join(' -> '),
+
+    async complete(request) {
+      return run(request, async (entry, entryRequest, signal) => {
+        const result = await entry.provider.complete(entryRequest, signal);
+        return { content: result.content, usage: result.usage, provider: entry.provider.name, model: entryRequest.model };
+      });
+    },
+
+    // Errors fall back only until the first chunk arrives. A stream that then stalls for
+    // STREAM_IDLE_TIMEOUT_MS is aborted and the next entry answers from the start, announced
+    // by a restart chunk so the caller can drop the partial answer.
+    async stream(request) {
+      const open = (firstEntry: number) => run(request, async (entry, entryRequest, signal): Promise<OpenedStream> => {
+        const controller = new AbortController();
+        signal.addEventListener('abort', () => controller.abort());
+        const iterator = entry.provider.stream(entryRequest, controller.signal)[Symbol.asyncIterator]();
+        const first = await iterator.next();
+        return {
+          iterator,
+          first,
+          controller,
+          entryIndex: entries.indexOf(entry),
+          label: `${entry.provider.name}:${entryRequest.model}`,
+          provider: entry.provider.name,
+          model: entryRequest.model
+        };
+      }, firstEntry);
+
+      let current = await open(0);
+      const result: CompletionStream = { chunks: { [Symbol.asyncIterator]: () => ({ next: () => nextChunk() }) }, provider: current.provider, model: current.model };
+      let queued: IteratorResult<CompletionChunk> | null = current.first;
+
+      const nextChunk = async (): Promise<IteratorResult<CompletionChunk>> => {
+        if (queued) {
+          const chunk = queued;
+          queued = null;
+          return chunk;
+        }
+        const chunk = await nextWithIdleTimeout(current.iterator, current.controller);
+        if (chunk) return chunk;
+
+        console.error('LLM provider error:', current.label, `no chunk for ${STREAM_IDLE_TIMEOUT_MS}ms mid-stream - failing over`);
+        current = await open(current.entryIndex + 1);
+        result.provider = current.provider;
+        result.model = current.model;
+        queued = current.first;
+        return { done: false, value: { content: '', restart: true } };
+      };
+
+      return result;
+    }
+  };
+}
+
+function createProvider(name: string): LlmProvider | null {
+  if (name === 'openai') {
+    return createOpenAIProvider('openai', { apiKey: process.env.OPENAI_API_KEY });
+  }
+  if (name === 'compatible') {
+    if (!process.env.LLM_COMPATIBLE_BASE_URL) {
+      console.error('LLM_PROVIDERS lists compatible but LLM_COMPATIBLE_BASE_URL is not set - skipping it');
+      return null;
+    }
+    return createOpenAIProvider('compatible', {
+      apiKey: process.env.LLM_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL: process.env.LLM_COMPATIBLE_BASE_URL,
+      includeUsage: process.env.LLM_COMPATIBLE_STREAM_USAGE === 'true'
+    });
+  }
+  if (name === 'mock') {
+    return createMockProvider();
+  }
+  console.error('Unknown LLM provider:', name);
+  return null;
+}
+
+let providerChain: LlmProviderChain | null = null;
+
+// Defaults to openai alone. A compatible server usually serves its own model name:
+// LLM_COMPATIBLE_MODEL=llama3.1:8b replaces the routed model for that entry.
+export function getLlmProviderChain(): LlmProviderChain {
+  if (providerChain) return providerChain;
+
+  const entries: LlmChainEntry[] = [];
+  (process.env.LLM_PROVIDERS || 'openai').split(',').map(item => item.trim()).filter(Boolean).forEach(item => {
+    // Split on the first colon only - Ollama model names contain one (llama3.1:8b)
+    const separator = item.indexOf(':');
+    const name = separator === -1 ? item : item.substring(0, separator);
+    const model = separator === -1 ? '' : item.substring(separator + 1);
+    const provider = createProvider(name);
+    if (!provider) return;
+    const entryModel = model || (name === 'compatible' ? process.env.LLM_COMPATIBLE_MODEL : undefined);
+    entries.push({ provider, model: entryModel || undefined });
+  });
+
+  providerChain = createLlmProviderChain(entries);
+  console.log('LLM providers:', providerChain.description || 'none');
+  return providerChain;
+}
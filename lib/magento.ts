@@ -0,0 +1,30 @@
+// Magento REST product shapes - a product from /V1/products, an item of a /V1/products
+// search result, or the same JSON saved as a catalog export. Only the fields Ask Ed reads.
+export interface MagentoCustomAttribute {
+  attribute_code: string;
+  value: unknown; // A string for most attributes; arrays for category_ids and multiselects
+}
+
+export interface MagentoProductLink {
+  sku: string;
+  link_type: string; // related, crosssell or upsell
+  linked_product_sku: string;
+}
+
+export interface MagentoProduct {
+  sku?: string;
+  name?: string;
+  custom_attributes?: MagentoCustomAttribute[];
+  product_links?: MagentoProductLink[];
+}
+
+export interface MagentoSearchResult<T = MagentoProduct> {
+  items?: T[];
+}
+
+// Scalar attribute value as a string; undefined when missing or array-valued
+export function getCustomAttribute(product: MagentoProduct, code: string): string | undefined {
+  const attribute = (product.custom_attributes || []).find(candidate => candidate.attribute_code === code);
+  if (!attribute || (typeof attribute.value !== 'string' && typeof attribute.value !== 'number')) return undefined;
+  return String(attribute.value);
+}
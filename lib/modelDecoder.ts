@@ -0,0 +1,152 @@
+// Deterministic model-number decoder for Mean Well-style part numbers
+// e.g. HLG-120H-48AB -> series HLG, 120W, H variant, 48V output, AB suffix
+import { extractModelNumber } from './datasheetParser';
+
+export interface SuffixMeaning {
+  description: string;
+  adjustable: boolean;
+  adjustmentMethod?: string;
+  dimming: boolean;
+  dimmingTypes?: string[];
+  ipRating: string;
+}
+
+export interface DecodedModel {
+  modelNumber: string;
+  series: string;
+  wattage: number | null;
+  variant: string;                // Letters after the wattage, e.g. "H" in HLG-120H
+  outputVoltage: number | null;   // Constant voltage models (HLG-120H-48)
+  outputCurrentMa: number | null; // Constant current models (HLG-120H-C700)
+  suffix: string;                 // '' for no suffix
+  suffixMeaning: SuffixMeaning | null; // Only set for series that use the blank/A/B/AB encoding
+}
+
+export type ModelFactTopic = 'dimming' | 'ipRating' | 'adjustable';
+
+// SERIES-WATTAGE[VARIANT]-(VOLTAGE | C + CURRENT mA)[SUFFIX]
+const MODEL_PATTERN = /^([A-Z]{2,5})-(\d+)([A-Z]*)-(?:C(\d+)|(\d+(?:\.\d+)?))([A-Z][A-Z0-9]{0,2})?$/;
+
+export function decodeModelNumber(
+  productTitle: string,
+  suffixes: { [suffix: string]: SuffixMeaning },
+  suffixEncodedSeries: string[]
+): DecodedModel | null {
+  const modelNumber = extractModelNumber(productTitle);
+  if (!modelNumber) return null;
+
+  const match = modelNumber.match(MODEL_PATTERN);
+  if (!match) return null;
+
+  const [, series, wattage, variant, currentMa, voltage, suffix = ''] = match;
+  const usesSuffixEncoding = suffixEncodedSeries.includes(series);
+
+  return {
+    modelNumber,
+    series,
+    wattage: parseInt(wattage, 10),
+    variant,
+    outputVoltage: voltage ? parseFloat(voltage) : null,
+    outputCurrentMa: currentMa ? parseInt(currentMa, 10) : null,
+    suffix,
+    suffixMeaning: usesSuffixEncoding ? suffixes[suffix || 'blank'] || null : null
+  };
+}
+
+// Structured facts for the prompt
+export function formatModelFacts(decoded: DecodedModel): string {
+  const lines = [
+    `MODEL NUMBER DECODE (deterministic, from the part number ${decoded.modelNumber}):`,
+    `Series: ${decoded.series}`,
+    `Rated power: ${decoded.wattage}W${decoded.variant ? ` (${decoded.variant} variant)` : ''}`
+  ];
+
+  if (decoded.outputVoltage !== null) lines.push(`Nominal output voltage: ${decoded.outputVoltage}V`);
+  if (decoded.outputCurrentMa !== null) lines.push(`Nominal output current: ${decoded.outputCurrentMa}mA (constant current model)`);
+
+  if (decoded.suffixMeaning) {
+    const meaning = decoded.suffixMeaning;
+    lines.push(`Suffix: ${decoded.suffix ? `"${decoded.suffix}"` : 'none (blank)'} - ${meaning.description}`);
+    lines.push(`IP rating: ${meaning.ipRating}`);
+    lines.push(`Adjustable output: ${meaning.adjustable ? `Yes (${meaning.adjustmentMethod})` : 'No (fixed Io and Vo)'}`);
+    lines.push(`Dimming: ${meaning.dimming ? `Yes (3-in-1: ${(meaning.dimmingTypes || []).join(', ')})` : 'No'}`);
+  } else if (decoded.suffix) {
+    lines.push(`Suffix: "${decoded.suffix}" (meaning not decoded - check the datasheet ordering information)`);
+  }
+
+  return lines.join('\n');
+}
+
+// A named dimming method or protocol needs the suffix's actual method list (B is 0-10V, PWM
+// and resistance - not DALI or TRIAC), so those questions go to the full pipeline. "0-10V"
+// and "1-10V" are already caught by the digit check below.
+const DIMMING_METHOD_PATTERN = /\b(dali|triac|dmx|pwm|phase|leading[\s-]edge|trailing[\s-]edge|elv|mlv|resistance|resistor|timer|wall dimmer|dimmer switch|zigbee|bluetooth|casambi|knx|smart)\b/;
+
+// Only plain yes/no or "what is the" questions about a single topic qualify
+function detectFactTopic(question: string): ModelFactTopic | null {
+  const questionLower = question.toLowerCase().trim();
+
+  if (questionLower.length > 80 || (questionLower.match(/\?/g) || []).length > 1) return null;
+  // Numbers mean a specific method or condition ("0-10V", "at 50°C") - leave those to the full pipeline
+  if (/\d/.test(questionLower.replace(/\bip\s?rating\b/, ''))) return null;
+  if (/\b(and|also|or|curve|range|how|why|wire|wiring|connect)\b/.test(questionLower)) return null;
+  if (DIMMING_METHOD_PATTERN.test(questionLower)) return null;
+
+  const topics: ModelFactTopic[] = [];
+  if (/\b(dimmable|dimming|dim)\b/.test(questionLower)) topics.push('dimming');
+  if (/\b(ip rating|ingress protection|ip code)\b/.test(questionLower)) topics.push('ipRating');
+  if (/\b(adjustable|potentiometer|trim pot)\b/.test(questionLower)) topics.push('adjustable');
+
+  return topics.length === 1 ? topics[0] : null;
+}
+
+// A product-page spec line that contradicts the suffix makes the answer ambiguous
+function specsContradict(topic: ModelFactTopic, meaning: SuffixMeaning, productSpecs: string): boolean {
+  if (topic === 'dimming') {
+    const dimmingField = productSpecs.match(/^\s*dimming\s*:\s*(.+)$/im);
+    if (!dimmingField) return false;
+    const isNonDimming = /non[\s-]?dimm/i.test(dimmingField[1]);
+    return isNonDimming === meaning.dimming;
+  }
+
+  if (topic === 'ipRating') {
+    const ipField = productSpecs.match(/\b(?:ip rating|ingress protection)\s*:\s*(IP\d{2})/i);
+    return !!ipField && ipField[1].toUpperCase() !== meaning.ipRating;
+  }
+
+  return false;
+}
+
+// Answer straightforward suffix questions without calling the LLM.
+// Returns null whenever the facts are not unambiguous.
+export function answerFromModelFacts(question: string, decoded: DecodedModel | null, productSpecs: string): { topic: ModelFactTopic; answer: string } | null {
+  if (!decoded?.suffixMeaning) return null;
+
+  const topic = detectFactTopic(question);
+  if (!topic) return null;
+
+  const meaning = decoded.suffixMeaning;
+  if (specsContradict(topic, meaning, productSpecs)) return null;
+
+  const model = decoded.modelNumber;
+  const suffixNote = decoded.suffix ? `the "${decoded.suffix}" suffix` : 'no suffix (standard version)';
+
+  if (topic === 'dimming') {
+    const answer = meaning.dimming
+      ? `Yes, the ${model} has 3-in-1 dimming (${(meaning.dimmingTypes || []).join(', ')}), indicated by ${suffixNote} in the model number. Check the datasheet for dimming curves and wiring details.`
+      : `No, the ${model} is a non-dimming model. It has ${suffixNote}; only the B and AB versions of the ${decoded.series} series include 3-in-1 dimming.`;
+    return { topic, answer };
+  }
+
+  if (topic === 'ipRating') {
+    return {
+      topic,
+      answer: `The ${model} is rated ${meaning.ipRating}, based on ${suffixNote} in the model number.`
+    };
+  }
+
+  const answer = meaning.adjustable
+    ? `Yes, the ${model} has adjustable output current (Io) and voltage (Vo) through a ${meaning.adjustmentMethod}, indicated by ${suffixNote}. Check the datasheet for the exact adjustment ranges.`
+    : `No, the ${model} has fixed output current and voltage. It has ${suffixNote}; only the A and AB versions of the ${decoded.series} series have a built-in potentiometer for adjustment.`;
+  return { topic, answer };
+}
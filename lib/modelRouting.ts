@@ -0,0 +1,87 @@
+// Model routing - picks the completion model for a question from the rules in
+// config/model-routing.json, and prices token usage with the per-model table there
+import modelRoutingConfig from '../config/model-routing.json';
+import type { TokenUsage } from './exchangeLog';
+
+export interface ModelRoutingRule {
+  name: string;
+  description?: string;
+  model: string;
+  match: {
+    keywords?: string[];         // Any keyword in the question (case-insensitive)
+    intents?: string[];          // Local intent classifier result
+    categories?: string[];       // Any category in the product title, e.g. "LED Driver"
+    minDatasheetChars?: number;  // Extracted datasheet at least this long
+    adjustableSuffix?: boolean;  // Decoded A/AB suffix (potentiometer adjustable)
+  };
+}
+
+export interface ModelPricing {
+  maxTokens: number;
+  inputPerMillion: number;  // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+}
+
+export interface ModelRoutingRequest {
+  question: string;
+  intent?: string;
+  productTitle: string;
+  datasheetChars: number;
+  adjustableSuffix: boolean;
+}
+
+export interface ModelRoute {
+  model: string;
+  rule: string;
+  maxTokens: number;
+}
+
+const DEFAULT_MAX_TOKENS = 300;
+
+export function getModelRoutingRules(): ModelRoutingRule[] {
+  return modelRoutingConfig.rules as ModelRoutingRule[];
+}
+
+export function getModelPricing(model: string): ModelPricing | null {
+  const models = modelRoutingConfig.models as { [model: string]: ModelPricing };
+  return models[model] || null;
+}
+
+// First rule whose every configured criterion matches wins
+export function resolveModelRoute(request: ModelRoutingRequest, rules: ModelRoutingRule[] = getModelRoutingRules()): ModelRoute {
+  const question = request.question.toLowerCase();
+  const productTitle = request.productTitle.toLowerCase();
+
+  const matched = rules.find(rule => {
+    const { keywords, intents, categories, minDatasheetChars, adjustableSuffix } = rule.match;
+    if (keywords && !keywords.some(keyword => question.includes(keyword.toLowerCase()))) return false;
+    if (intents && (!request.intent || intents.indexOf(request.intent) === -1)) return false;
+    if (categories && !categories.some(category => productTitle.includes(category.toLowerCase()))) return false;
+    if (minDatasheetChars !== undefined && request.datasheetChars < minDatasheetChars) return false;
+    if (adjustableSuffix !== undefined && request.adjustableSuffix !== adjustableSuffix) return false;
+    return true;
+  }) || rules[rules.length - 1];
+
+  const pricing = getModelPricing(matched.model);
+  return {
+    model: matched.model,
+    rule: matched.name,
+    maxTokens: pricing ? pricing.maxTokens : DEFAULT_MAX_TOKENS
+  };
+}
+
+// Estimated USD cost; models missing from the price table cost 0 (and are logged once)
+const unpricedModels: string[] = [];
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    if (unpricedModels.indexOf(model) === -1) {
+      unpricedModels.push(model);
+      console.error('No price configured for model:', model);
+    }
+    return 0;
+  }
+
+  const cost = (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1000000;
+  return Math.round(cost * 1000000) / 1000000;
+}
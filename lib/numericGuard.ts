@@ -0,0 +1,73 @@
+// Hallucination guard - every number-with-unit in an answer (24V, 2.5A, 94%, -40~+70°C ...)
+// must appear in the product data that was sent to the model. Values that only exist
+// in a neighbouring model's datasheet column count as unverified even though they are
+// somewhere in the datasheet text, since that is the most common wrong-spec answer.
+import { containsValue, extractQuotedValues, normalizeValue } from './citations';
+import { DatasheetTable, ModelSpecs } from './datasheetParser';
+
+export interface NumericGuardSources {
+  productSpecs: string;
+  datasheetContent: string;
+  resolvedSpecs?: string;
+  table?: DatasheetTable | null;
+  modelSpecs?: ModelSpecs | null;
+  modelFacts?: string; // Decoded part number facts; never the question or conversation turns
+}
+
+export interface NumericCheck {
+  checkedValues: string[];
+  unverifiedValues: string[];
+  neighbourValues: string[]; // Subset of unverifiedValues found in another model's column
+}
+
+export type NumericGuardAction = 'regenerated' | 'missingSpec';
+
+// Stored on the exchange log whenever the guard rejected an answer
+export interface NumericGuardOutcome {
+  unverifiedValues: string[];
+  neighbourValues: string[];
+  action: NumericGuardAction;
+  model?: string; // Model used for the regeneration
+}
+
+// Cells from other model columns, skipping values the product's own column shares
+function getNeighbourCells(table: DatasheetTable, modelSpecs: ModelSpecs): string[] {
+  const ownIndex = table.models.indexOf(modelSpecs.column);
+  if (ownIndex === -1) return [];
+
+  const cells: string[] = [];
+  table.rows.forEach(row => {
+    if (!row.values) return;
+    const ownCell = normalizeValue(row.values[ownIndex] || '');
+    row.values.forEach((cell, index) => {
+      if (index !== ownIndex && cell && normalizeValue(cell) !== ownCell) cells.push(normalizeValue(cell));
+    });
+  });
+  return cells;
+}
+
+export function checkNumericValues(answerText: string, sources: NumericGuardSources): NumericCheck {
+  const ownSources = [sources.productSpecs, sources.resolvedSpecs || '', sources.modelFacts || '']
+    .map(normalizeValue);
+  const datasheetText = normalizeValue(sources.datasheetContent);
+  const neighbourCells = sources.table && sources.modelSpecs ? getNeighbourCells(sources.table, sources.modelSpecs) : [];
+
+  const checkedValues = extractQuotedValues(answerText);
+  const unverifiedValues: string[] = [];
+  const neighbourValues: string[] = [];
+
+  checkedValues.forEach(value => {
+    const normalized = normalizeValue(value);
+    if (ownSources.some(source => containsValue(source, normalized))) return;
+
+    if (neighbourCells.some(cell => containsValue(cell, normalized))) {
+      unverifiedValues.push(value);
+      neighbourValues.push(value);
+      return;
+    }
+
+    if (!containsValue(datasheetText, normalized)) unverifiedValues.push(value);
+  });
+
+  return { checkedValues, unverifiedValues, neighbourValues };
+}
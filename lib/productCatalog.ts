@@ -0,0 +1,304 @@
+// Product catalog - canonical product context (title, specs, datasheet, accessories,
+// related products) by SKU or product URL, so /api/ask doesn't depend on what the
+// widget managed to scrape from the page. Specs scraped by the widget are only a fallback.
+// PRODUCT_CATALOG_PROVIDER=magento (REST API) | file (JSON/CSV export) | none
+import fs from 'fs';
+import path from 'path';
+import { getCustomAttribute, MagentoProduct, MagentoSearchResult } from './magento';
+import { getSkuCatalog, parseCsv } from './skuCatalog';
+
+export interface ProductContext {
+  sku: string;
+  title: string;
+  specs: string; // "Label: value" lines - the same shape the widget scrapes
+  datasheetUrl?: string;
+  accessories: string; // One "SKU - name" line per product
+  similarProducts: string;
+  source: string; // Provider that answered, e.g. magento or the file path
+}
+
+export interface ProductLookup {
+  sku?: string;
+  urlKey?: string; // Magento url_key, e.g. hlg-120h-48a for /hlg-120h-48a.html
+}
+
+export interface ProductCatalogProvider {
+  readonly name: string;
+  lookup(query: ProductLookup): Promise<ProductContext | null>;
+}
+
+type LinkedProducts = string | string[]; // SKUs, or preformatted "SKU - name" lines
+
+// Simple JSON catalog entry - see fromSimpleProduct
+interface SimpleCatalogProduct {
+  sku?: string;
+  name?: string;
+  title?: string;
+  urlKey?: string;
+  url_key?: string;
+  specs?: string | { [label: string]: string };
+  datasheetUrl?: string;
+  datasheet_url?: string;
+  accessories?: LinkedProducts;
+  similarProducts?: LinkedProducts;
+  related?: LinkedProducts;
+}
+
+// Each entry of a JSON catalog file is a Magento product (has custom_attributes) or a simple one
+interface CatalogJsonItem extends MagentoProduct, SimpleCatalogProduct {}
+
+// Magento system attributes that aren't product specifications
+const NON_SPEC_ATTRIBUTES = [
+  'url_key', 'url_path', 'description', 'short_description', 'meta_title', 'meta_keyword', 'meta_description',
+  'image', 'small_image', 'thumbnail', 'swatch_image', 'image_label', 'small_image_label', 'thumbnail_label',
+  'options_container', 'required_options', 'has_options', 'tax_class_id', 'category_ids', 'msrp_display_actual_price_type',
+  'gift_message_available', 'news_from_date', 'news_to_date', 'custom_design', 'custom_layout', 'page_layout',
+  'special_price', 'special_from_date', 'special_to_date', 'cost', 'visibility', 'status', 'quantity_and_stock_status'
+];
+const ACRONYMS = ['ac', 'dc', 'ip', 'led', 'pfc', 'mtbf', 'emc', 'emi', 'ul', 'ce', 'thd'];
+const DATASHEET_ATTRIBUTE = process.env.MAGENTO_DATASHEET_ATTRIBUTE || 'datasheet';
+const REQUEST_TIMEOUT_MS = parseInt(process.env.PRODUCT_CATALOG_TIMEOUT_MS || '5000', 10);
+
+// output_voltage -> Output Voltage, ip_rating -> IP Rating
+function attributeLabel(code: string): string {
+  return code.split('_').filter(Boolean).map(word =>
+    ACRONYMS.indexOf(word.toLowerCase()) !== -1 ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+}
+
+function formatSpecs(attributes: { [code: string]: string }): string {
+  return Object.keys(attributes)
+    .filter(code => NON_SPEC_ATTRIBUTES.indexOf(code) === -1 && code !== DATASHEET_ATTRIBUTE && attributes[code].trim())
+    .map(code => `${attributeLabel(code)}: ${attributes[code].trim()}`)
+    .join('\n');
+}
+
+// Linked products only come with a SKU - names are filled in from the SKU catalog when it has them
+function formatLinkedProducts(skus: string[]): string {
+  const catalog = getSkuCatalog();
+  return skus
+    .filter(Boolean)
+    .map(sku => {
+      const entry = catalog.lookup(sku);
+      return entry && entry.name ? `${sku} - ${entry.name}` : sku;
+    })
+    .join('\n');
+}
+
+// The model number has to be in the title - it drives suffix decoding and the datasheet column
+function productTitle(sku: string, name: string): string {
+  return name && name.toUpperCase().indexOf(sku.toUpperCase()) !== -1 ? name : `${sku} ${name || ''}`.trim();
+}
+
+function absoluteUrl(url: string | undefined, baseUrl?: string): string | undefined {
+  if (!url) return undefined;
+  if (/^https?:\/\//i.test(url) || !baseUrl) return url;
+  return `${baseUrl.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+}
+
+// Magento REST product ({ sku, name, custom_attributes, product_links }) - also the shape of a saved REST export
+function fromMagentoProduct(product: MagentoProduct, source: string, baseUrl?: string): ProductContext {
+  const attributes: { [code: string]: string } = {};
+  (product.custom_attributes || []).forEach(attribute => {
+    if (typeof attribute.value === 'string' || typeof attribute.value === 'number') {
+      attributes[attribute.attribute_code] = String(attribute.value);
+    }
+  });
+  const links = (type: string) => (product.product_links || [])
+    .filter(link => link.link_type === type)
+    .map(link => String(link.linked_product_sku));
+
+  const sku = String(product.sku || '').trim();
+  return {
+    sku,
+    title: productTitle(sku, product.name || ''),
+    specs: formatSpecs(attributes),
+    datasheetUrl: absoluteUrl(attributes[DATASHEET_ATTRIBUTE], baseUrl),
+    accessories: formatLinkedProducts(links('crosssell')),
+    similarProducts: formatLinkedProducts(links('related')),
+    source
+  };
+}
+
+// Simple JSON: [{ sku, name, urlKey, specs: { "Output Voltage": "48V" } | "...", datasheetUrl, accessories: [], similarProducts: [] }]
+function fromSimpleProduct(product: SimpleCatalogProduct, source: string): ProductContext {
+  const sku = String(product.sku || '').trim();
+  const specTable = product.specs || {};
+  const specs = typeof specTable === 'string'
+    ? specTable
+    : Object.keys(specTable).map(label => `${label}: ${specTable[label]}`).join('\n');
+  const linked = (value: LinkedProducts | undefined) => Array.isArray(value) ? formatLinkedProducts(value.map(String)) : String(value || '');
+
+  return {
+    sku,
+    title: productTitle(sku, product.name || product.title || ''),
+    specs,
+    datasheetUrl: product.datasheetUrl || product.datasheet_url || undefined,
+    accessories: linked(product.accessories),
+    similarProducts: linked(product.similarProducts || product.related),
+    source
+  };
+}
+
+// Magento product export: additional_attributes ("code=value,code=value"), crosssell_skus and related_skus
+function parseCatalogCsv(text: string, source: string): Array<{ urlKey: string; product: ProductContext }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+  const skuIndex = column('sku');
+  const nameIndex = column('name');
+  const urlKeyIndex = column('url_key');
+  const attributesIndex = column('additional_attributes');
+  const crosssellIndex = column('crosssell_skus');
+  const relatedIndex = column('related_skus');
+  const storeViewIndex = column('store_view_code');
+  if (skuIndex === -1) {
+    throw new Error('Product catalog CSV needs a sku column');
+  }
+
+  const cell = (cells: string[], index: number) => index === -1 ? '' : (cells[index] || '').trim();
+  return rows
+    .filter(cells => storeViewIndex === -1 || !cells[storeViewIndex])
+    .map(cells => {
+      const attributes: { [code: string]: string } = {};
+      cell(cells, attributesIndex).split(',').forEach(pair => {
+        const separator = pair.indexOf('=');
+        if (separator > 0) attributes[pair.substring(0, separator).trim()] = pair.substring(separator + 1);
+      });
+      const sku = cell(cells, skuIndex);
+      return {
+        urlKey: cell(cells, urlKeyIndex),
+        product: {
+          sku,
+          title: productTitle(sku, cell(cells, nameIndex)),
+          specs: formatSpecs(attributes),
+          datasheetUrl: attributes[DATASHEET_ATTRIBUTE] || undefined,
+          accessories: formatLinkedProducts(cell(cells, crosssellIndex).split(',').map(value => value.trim())),
+          similarProducts: formatLinkedProducts(cell(cells, relatedIndex).split(',').map(value => value.trim())),
+          source
+        }
+      };
+    });
+}
+
+// JSON or CSV file, loaded once - for local development and the eval
+export function createFileProductCatalogProvider(filePath: string): ProductCatalogProvider {
+  let index: { bySku: Map<string, ProductContext>; byUrlKey: Map<string, ProductContext> } | null = null;
+
+  const load = () => {
+    if (index) return index;
+    const text = fs.readFileSync(filePath, 'utf8');
+    let entries: Array<{ urlKey: string; product: ProductContext }>;
+    if (path.extname(filePath).toLowerCase() === '.json') {
+      const data: CatalogJsonItem[] | MagentoSearchResult<CatalogJsonItem> = JSON.parse(text);
+      const items = Array.isArray(data) ? data : data.items || [];
+      entries = items.map(item => ({
+        urlKey: String(item.urlKey || item.url_key || getCustomAttribute(item, 'url_key') || ''),
+        product: item.custom_attributes ? fromMagentoProduct(item, filePath) : fromSimpleProduct(item, filePath)
+      }));
+    } else {
+      entries = parseCatalogCsv(text, filePath);
+    }
+
+    index = { bySku: new Map(), byUrlKey: new Map() };
+    entries.filter(entry => entry.product.sku).forEach(entry => {
+      index!.bySku.set(entry.product.sku.toUpperCase(), entry.product);
+      if (entry.urlKey) index!.byUrlKey.set(entry.urlKey.toLowerCase(), entry.product);
+    });
+    console.log('Product catalog:', filePath, `${index.bySku.size} products`);
+    return index;
+  };
+
+  return {
+    name: 'file',
+    async lookup(query) {
+      const { bySku, byUrlKey } = load();
+      if (query.sku) return bySku.get(query.sku.trim().toUpperCase()) || null;
+      if (query.urlKey) return byUrlKey.get(query.urlKey.toLowerCase()) || null;
+      return null;
+    }
+  };
+}
+
+// Magento REST API with an integration access token (Catalog > Products read access)
+export function createMagentoProductCatalogProvider(options: { baseUrl: string; accessToken: string; storeCode?: string }): ProductCatalogProvider {
+  const apiBase = `${options.baseUrl.replace(/\/$/, '')}/rest/${options.storeCode || 'default'}/V1`;
+
+  const request = async <T>(pathAndQuery: string): Promise<T | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${apiBase}${pathAndQuery}`, {
+        headers: { 'Authorization': `Bearer ${options.accessToken}`, 'Accept': 'application/json' },
+        signal: controller.signal
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Magento API ${response.status} ${response.statusText}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    name: 'magento',
+    async lookup(query) {
+      let product: MagentoProduct | null = null;
+      if (query.sku) {
+        product = await request<MagentoProduct>(`/products/${encodeURIComponent(query.sku.trim())}`);
+      } else if (query.urlKey) {
+        const params = [
+          'searchCriteria[filter_groups][0][filters][0][field]=url_key',
+          `searchCriteria[filter_groups][0][filters][0][value]=${encodeURIComponent(query.urlKey)}`,
+          'searchCriteria[pageSize]=1'
+        ].join('&');
+        const result = await request<MagentoSearchResult>(`/products?${params}`);
+        product = result && result.items && result.items[0] ? result.items[0] : null;
+      }
+      return product ? fromMagentoProduct(product, 'magento', options.baseUrl) : null;
+    }
+  };
+}
+
+// https://www.bravoelectro.com/hlg-120h-48a.html -> hlg-120h-48a
+export function urlKeyFromProductUrl(productUrl: string): string | null {
+  try {
+    const pathname = new URL(productUrl).pathname;
+    const lastSegment = pathname.split('/').filter(Boolean).pop() || '';
+    const urlKey = lastSegment.replace(/\.html?$/i, '');
+    return /^[a-z0-9][a-z0-9\-_.]*$/i.test(urlKey) ? urlKey : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+let productCatalogProvider: ProductCatalogProvider | null | undefined;
+
+// Defaults to magento when MAGENTO_BASE_URL is set, file when PRODUCT_CATALOG_PATH is set, otherwise none
+export function getProductCatalogProvider(): ProductCatalogProvider | null {
+  if (productCatalogProvider !== undefined) return productCatalogProvider;
+
+  const providerType = process.env.PRODUCT_CATALOG_PROVIDER ||
+    (process.env.MAGENTO_BASE_URL ? 'magento' : process.env.PRODUCT_CATALOG_PATH ? 'file' : 'none');
+
+  if (providerType === 'magento' && process.env.MAGENTO_BASE_URL && process.env.MAGENTO_ACCESS_TOKEN) {
+    productCatalogProvider = createMagentoProductCatalogProvider({
+      baseUrl: process.env.MAGENTO_BASE_URL,
+      accessToken: process.env.MAGENTO_ACCESS_TOKEN,
+      storeCode: process.env.MAGENTO_STORE_CODE
+    });
+  } else if (providerType === 'file' && process.env.PRODUCT_CATALOG_PATH) {
+    productCatalogProvider = createFileProductCatalogProvider(path.resolve(process.cwd(), process.env.PRODUCT_CATALOG_PATH));
+  } else {
+    if (providerType !== 'none') {
+      console.error(`PRODUCT_CATALOG_PROVIDER=${providerType} is missing its settings - product lookups are disabled`);
+    }
+    productCatalogProvider = null;
+  }
+
+  console.log('Product catalog provider:', productCatalogProvider ? productCatalogProvider.name : 'none');
+  return productCatalogProvider;
+}
@@ -0,0 +1,268 @@
+// Rate limiting with pluggable stores and configurable per-route/per-origin policies
+// Stores: memory (single instance), redis (shared across instances), file (local testing)
+import fs from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import rateLimitConfig from '../config/rate-limits.json';
+import { ApiErrorBody } from './apiErrors';
+import { getDataPath } from './dataDir';
+import { getRedisClient } from './redisClient';
+
+export interface RateLimitStore {
+  // Increment the fixed-window counter for key and return the new count and window reset time
+  increment(key: string, windowMs: number): Promise<{ count: number; resetTime: number }>;
+}
+
+export interface RateLimitWindow {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  description?: string;
+  match: {
+    routes?: string[];
+    origins?: string[];
+    ips?: string[]; // Exact IPs or IPv4 CIDR ranges
+  };
+  windows: RateLimitWindow[];
+}
+
+export interface RateLimitRequest {
+  route: string;
+  ip: string;
+  origin?: string;
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  policy: string;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  windows: RateLimitWindow[];
+}
+
+type CounterMap = { [key: string]: { count: number; resetTime: number } };
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; resetTime: number }>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+
+      // Drop expired windows so the map doesn't grow forever
+      if (counters.size > 10000) {
+        counters.forEach((value, counterKey) => {
+          if (now > value.resetTime) counters.delete(counterKey);
+        });
+      }
+
+      const counter = counters.get(key);
+      if (!counter || now > counter.resetTime) {
+        const fresh = { count: 1, resetTime: now + windowMs };
+        counters.set(key, fresh);
+        return fresh;
+      }
+
+      counter.count++;
+      return counter;
+    }
+  };
+}
+
+export function createRedisRateLimitStore(redisUrl: string, keyPrefix: string = 'askEd:rateLimit:'): RateLimitStore {
+  const redis = getRedisClient(redisUrl);
+
+  return {
+    async increment(key, windowMs) {
+      const redisKey = keyPrefix + key;
+      const count = Number(await redis.command(['INCR', redisKey]));
+      if (count === 1) {
+        await redis.command(['PEXPIRE', redisKey, windowMs]);
+      }
+
+      let ttl = Number(await redis.command(['PTTL', redisKey]));
+      if (ttl < 0) {
+        // Key lost its expiry (e.g. crash between INCR and PEXPIRE) - restore it
+        await redis.command(['PEXPIRE', redisKey, windowMs]);
+        ttl = windowMs;
+      }
+
+      return { count, resetTime: Date.now() + ttl };
+    }
+  };
+}
+
+// JSON file store - single process only, meant for local development and tests
+export function createFileRateLimitStore(filePath: string = getDataPath('rate-limits.json')): RateLimitStore {
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+
+      let counters: CounterMap = {};
+      try {
+        counters = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        counters = {};
+      }
+
+      Object.keys(counters).forEach(counterKey => {
+        if (now > counters[counterKey].resetTime) delete counters[counterKey];
+      });
+
+      const counter = counters[key] || { count: 0, resetTime: now + windowMs };
+      counter.count++;
+      counters[key] = counter;
+
+      fs.writeFileSync(filePath, JSON.stringify(counters));
+      return counter;
+    }
+  };
+}
+
+let configuredStore: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=memory|redis|file - defaults to redis when REDIS_URL is set
+export function getRateLimitStore(): RateLimitStore {
+  if (configuredStore) return configuredStore;
+
+  const storeType = process.env.RATE_LIMIT_STORE || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (storeType === 'redis' && process.env.REDIS_URL) {
+    configuredStore = createRedisRateLimitStore(process.env.REDIS_URL);
+  } else if (storeType === 'file') {
+    configuredStore = createFileRateLimitStore();
+  } else {
+    if (storeType === 'redis') {
+      console.error('RATE_LIMIT_STORE=redis but REDIS_URL is not set - falling back to memory store');
+    }
+    configuredStore = createMemoryRateLimitStore();
+  }
+
+  console.log('Rate limit store:', storeType);
+  return configuredStore;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(part => parseInt(part, 10));
+  if (octets.some(octet => isNaN(octet) || octet < 0 || octet > 255)) return null;
+  return ((octets[0] << 24) >>> 0) + (octets[1] << 16) + (octets[2] << 8) + octets[3];
+}
+
+function ipMatches(ip: string, pattern: string): boolean {
+  const normalizedIP = ip.replace(/^::ffff:/, '');
+  if (!pattern.includes('/')) return normalizedIP === pattern;
+
+  const [range, bitsText] = pattern.split('/');
+  const bits = parseInt(bitsText, 10);
+  const ipNumber = ipv4ToNumber(normalizedIP);
+  const rangeNumber = ipv4ToNumber(range);
+  if (ipNumber === null || rangeNumber === null || isNaN(bits)) return false;
+
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return ((ipNumber & mask) >>> 0) === ((rangeNumber & mask) >>> 0);
+}
+
+export function getRateLimitPolicies(): RateLimitPolicy[] {
+  const policies: RateLimitPolicy[] = rateLimitConfig.policies.map(policy => Object.assign({}, policy, {
+    match: Object.assign({}, policy.match)
+  }));
+
+  // Staff IPs stay out of the repo - RATE_LIMIT_STAFF_IPS=203.0.113.10,10.20.0.0/16
+  const staffIPs = (process.env.RATE_LIMIT_STAFF_IPS || '').split(',').map(ip => ip.trim()).filter(Boolean);
+  const staffPolicy = policies.find(policy => policy.name === 'staff');
+  if (staffPolicy && staffIPs.length > 0) {
+    staffPolicy.match.ips = (staffPolicy.match.ips || []).concat(staffIPs);
+  }
+
+  return policies;
+}
+
+// First policy whose every configured criterion matches wins
+export function resolveRateLimitPolicy(request: RateLimitRequest, policies: RateLimitPolicy[] = getRateLimitPolicies()): RateLimitPolicy {
+  const matched = policies.find(policy => {
+    const { routes, origins, ips } = policy.match;
+    if (routes && !routes.includes(request.route)) return false;
+    if (origins && (!request.origin || !origins.includes(request.origin))) return false;
+    if (ips && !ips.some(pattern => ipMatches(request.ip, pattern))) return false;
+    return true;
+  });
+
+  return matched || policies[policies.length - 1];
+}
+
+export async function checkRateLimit(request: RateLimitRequest, store: RateLimitStore = getRateLimitStore()): Promise<RateLimitResult> {
+  const policy = resolveRateLimitPolicy(request);
+
+  try {
+    const counters = await Promise.all(policy.windows.map(async window => {
+      const key = `${policy.name}:${request.route}:${request.ip}:${window.windowSeconds}`;
+      const counter = await store.increment(key, window.windowSeconds * 1000);
+      return {
+        window,
+        remaining: Math.max(0, window.limit - counter.count),
+        exceeded: counter.count > window.limit,
+        resetSeconds: Math.max(0, Math.ceil((counter.resetTime - Date.now()) / 1000))
+      };
+    }));
+
+    // Report the window that blocks (or is closest to blocking) the client
+    const exceeded = counters.filter(counter => counter.exceeded);
+    const reported = exceeded.length > 0
+      ? exceeded.sort((a, b) => b.resetSeconds - a.resetSeconds)[0]
+      : counters.sort((a, b) => a.remaining - b.remaining)[0];
+
+    return {
+      limited: exceeded.length > 0,
+      policy: policy.name,
+      limit: reported.window.limit,
+      remaining: reported.remaining,
+      resetSeconds: reported.resetSeconds,
+      windows: policy.windows
+    };
+  } catch (error) {
+    // Fail open - an unavailable store must not take the assistant down
+    console.error('Rate limit store error:', error instanceof Error ? error.message : String(error));
+    return { limited: false, policy: policy.name, limit: 0, remaining: 0, resetSeconds: 0, windows: [] };
+  }
+}
+
+// Standard RateLimit-* headers (IETF draft) plus Retry-After when blocked
+export function setRateLimitHeaders(res: NextApiResponse, result: RateLimitResult) {
+  if (result.windows.length === 0) return;
+
+  res.setHeader('RateLimit-Policy', result.windows.map(window => `${window.limit};w=${window.windowSeconds}`).join(', '));
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds));
+  if (result.limited) {
+    res.setHeader('Retry-After', String(result.resetSeconds));
+  }
+}
+
+function getClientIp(req: NextApiRequest): string {
+  return req.headers['x-forwarded-for']?.toString()?.split(',')[0] || req.socket.remoteAddress || 'unknown';
+}
+
+// Counts the request against the route's policy and sets the RateLimit-* headers. Returns false
+// when the request has been rejected with a 429 (message tells the customer what to do instead).
+export async function enforceRateLimit(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  route: string,
+  message: string = 'Rate limit exceeded. Please try again later.'
+): Promise<boolean> {
+  const ip = getClientIp(req);
+  const rateLimit = await checkRateLimit({ route, ip, origin: req.headers.origin?.toString() });
+  setRateLimitHeaders(res, rateLimit);
+  if (!rateLimit.limited) return true;
+
+  console.log('Rate limited:', ip, 'route:', route, 'policy:', rateLimit.policy);
+  const body: ApiErrorBody = { error: message, code: 'RATE_LIMITED', retryAfter: rateLimit.resetSeconds };
+  res.status(429).json(body);
+  return false;
+}
@@ -0,0 +1,161 @@
+// Minimal Redis protocol (RESP2) client - enough for counters and key/value caching.
+// Works with Redis, Valkey, KeyDB and hosted Redis-protocol services (rediss:// for TLS).
+import net from 'net';
+import tls from 'tls';
+
+export type RedisValue = string | number | null | RedisValue[];
+
+export interface RedisClient {
+  command(args: (string | number)[]): Promise<RedisValue>;
+}
+
+interface PendingCommand {
+  resolve: (value: RedisValue) => void;
+  reject: (error: Error) => void;
+}
+
+const COMMAND_TIMEOUT = 5000; // 5 seconds
+
+const clients = new Map<string, RedisClient>();
+
+function encodeCommand(args: (string | number)[]): string {
+  let encoded = `*${args.length}\r\n`;
+  args.forEach(arg => {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  });
+  return encoded;
+}
+
+// Parse one RESP reply starting at offset; returns null if the buffer is incomplete
+function parseReply(buffer: Buffer, offset: number): { value: RedisValue | Error; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, next };
+      const items: RedisValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value instanceof Error ? null : item.value);
+        position = item.next;
+      }
+      return { value: items, next: position };
+    }
+    default:
+      return { value: new Error(`Unexpected Redis reply type: ${type}`), next };
+  }
+}
+
+function createConnection(redisUrl: string): RedisClient {
+  const url = new URL(redisUrl);
+  const useTls = url.protocol === 'rediss:';
+  const port = parseInt(url.port || '6379', 10);
+  const database = url.pathname.replace('/', '');
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  let pending: PendingCommand[] = [];
+
+  const failPending = (error: Error) => {
+    const failed = pending;
+    pending = [];
+    failed.forEach(command => command.reject(error));
+  };
+
+  const connect = (): net.Socket => {
+    const connection = useTls
+      ? tls.connect({ host: url.hostname, port, servername: url.hostname })
+      : net.connect({ host: url.hostname, port });
+
+    connection.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let reply = parseReply(buffer, 0);
+      while (reply) {
+        buffer = buffer.subarray(reply.next);
+        const command = pending.shift();
+        if (command) {
+          if (reply.value instanceof Error) {
+            command.reject(reply.value);
+          } else {
+            command.resolve(reply.value);
+          }
+        }
+        reply = buffer.length > 0 ? parseReply(buffer, 0) : null;
+      }
+    });
+
+    connection.on('error', error => {
+      console.error('Redis connection error:', error.message);
+      failPending(error);
+    });
+
+    connection.on('close', () => {
+      socket = null;
+      buffer = Buffer.alloc(0);
+      failPending(new Error('Redis connection closed'));
+    });
+
+    // Authenticate and select the database before any queued command
+    const setup: (string | number)[][] = [];
+    if (url.password) {
+      setup.push(url.username ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)] : ['AUTH', decodeURIComponent(url.password)]);
+    }
+    if (database) {
+      setup.push(['SELECT', database]);
+    }
+    setup.forEach(args => {
+      pending.push({ resolve: () => {}, reject: error => console.error('Redis setup error:', error.message) });
+      connection.write(encodeCommand(args));
+    });
+
+    return connection;
+  };
+
+  return {
+    command(args) {
+      return new Promise<RedisValue>((resolve, reject) => {
+        if (!socket) {
+          socket = connect();
+        }
+
+        const timer = setTimeout(() => reject(new Error(`Redis command timed out: ${args[0]}`)), COMMAND_TIMEOUT);
+        pending.push({
+          resolve: value => { clearTimeout(timer); resolve(value); },
+          reject: error => { clearTimeout(timer); reject(error); }
+        });
+        socket.write(encodeCommand(args));
+      });
+    }
+  };
+}
+
+// One shared connection per URL for the lifetime of the instance
+export function getRedisClient(redisUrl: string): RedisClient {
+  let client = clients.get(redisUrl);
+  if (!client) {
+    client = createConnection(redisUrl);
+    clients.set(redisUrl, client);
+  }
+  return client;
+}
@@ -0,0 +1,223 @@
+// Inline RFQ (request for quote) from the widget - pricing answers offer a quote form
+// prefilled from the conversation. Sinks: form (posts to the same endpoint as the
+// bravoelectro.com RFQ form, field names in config/rfq.json), smtp, webhook and file (testing)
+import fs from 'fs';
+import rfqConfig from '../config/rfq.json';
+import { getDataPath } from './dataDir';
+import { createReference, postSignedJson, postWithTimeout } from './leadDelivery';
+import { sendSmtpMail } from './smtpClient';
+
+// Sent with pricing answers so the widget can prefill its quote form
+export interface QuoteRequestPrefill {
+  productTitle: string;
+  sku?: string;
+  quantity?: number; // Last quantity the customer mentioned in the conversation
+}
+
+export interface RfqContact {
+  name: string;
+  email: string;
+  phone?: string;
+  company?: string;
+}
+
+// Which Ask Ed session and answer led to the quote request - for conversion tracking
+export interface RfqAttribution {
+  source: 'ask_ed';
+  sessionId?: string;
+  conversationId?: string;
+  exchangeId?: string;
+}
+
+export interface RfqSubmission {
+  reference: string; // Given to the customer, e.g. RFQ-20241217-7K2Q9F
+  submittedAt: string; // ISO 8601
+  sku?: string;
+  productTitle?: string;
+  quantity: number;
+  customer: RfqContact;
+  comments?: string;
+  pageUrl: string;
+  attribution: RfqAttribution;
+}
+
+export interface RfqSink {
+  readonly name: string;
+  deliver(submission: RfqSubmission): Promise<void>;
+}
+
+export const MAX_RFQ_QUANTITY = 1000000;
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)\\s*(k|thousand)?';
+const NOT_A_SPEC = '(?!\\w|[.,]\\d|\\s*(?:v|vac|vdc|volts?|w|watts?|a|amps?|ma|hz|mm|%)\\b)';
+
+// "500 pcs", "qty: 200", "need 1,000 of these" - never "24V" or "350 W"
+const QUANTITY_PATTERNS = [
+  new RegExp(`\\b${NUMBER}\\s*(?:pcs|pc|pieces?|units?|nos)\\b`, 'i'),
+  new RegExp(`\\b(?:qty|quantity|quantities)(?:\\s+of)?\\s*[:=]?\\s*${NUMBER}${NOT_A_SPEC}`, 'i'),
+  new RegExp(`\\b(?:need|order|ordering|buy|buying|purchase|want|looking for)\\s+(?:about\\s+|around\\s+|approx(?:imately|\\.)?\\s+)?${NUMBER}${NOT_A_SPEC}`, 'i')
+];
+
+function parseQuantity(digits: string, multiplier: string | undefined): number | null {
+  const quantity = Math.round(parseFloat(digits.replace(/,/g, '')) * (multiplier ? 1000 : 1));
+  return quantity >= 1 && quantity <= MAX_RFQ_QUANTITY ? quantity : null;
+}
+
+// Texts are checked in order, so pass the newest customer message first
+export function extractQuantity(texts: string[]): number | null {
+  for (const text of texts) {
+    for (const pattern of QUANTITY_PATTERNS) {
+      const match = pattern.exec(text);
+      const quantity = match ? parseQuantity(match[1], match[2]) : null;
+      if (quantity) return quantity;
+    }
+  }
+  return null;
+}
+
+// Plain text request for email bodies and chat webhooks
+export function formatRfqText(submission: RfqSubmission): string {
+  const contact = submission.customer;
+  const attribution = submission.attribution;
+  const lines = [
+    `Ask Ed quote request ${submission.reference}`,
+    '',
+    `Product: ${submission.productTitle || '-'}${submission.sku ? ` (SKU ${submission.sku})` : ''}`,
+    `Quantity: ${submission.quantity}`,
+    `Customer: ${[contact.name, contact.company].filter(Boolean).join(', ')}`,
+    `Email: ${contact.email}`,
+    `Phone: ${contact.phone || '-'}`,
+    `Page: ${submission.pageUrl}`
+  ];
+  if (submission.comments) {
+    lines.push('', 'Comments:', submission.comments);
+  }
+  lines.push('', `Ask Ed session: ${attribution.sessionId || '-'}, conversation: ${attribution.conversationId || '-'}`);
+  return lines.join('\n');
+}
+
+// Form field values by config/rfq.json key - fields mapped to "" are left out
+function formValues(submission: RfqSubmission): { [field: string]: string | undefined } {
+  return {
+    reference: submission.reference,
+    name: submission.customer.name,
+    email: submission.customer.email,
+    phone: submission.customer.phone,
+    company: submission.customer.company,
+    sku: submission.sku,
+    productTitle: submission.productTitle,
+    quantity: String(submission.quantity),
+    comments: [submission.comments, `Sent from Ask Ed, reference ${submission.reference}`].filter(Boolean).join('\n\n'),
+    pageUrl: submission.pageUrl,
+    sessionId: submission.attribution.sessionId,
+    conversationId: submission.attribution.conversationId
+  };
+}
+
+// URL-encoded POST, like the browser submitting the RFQ form on bravoelectro.com
+export function createFormRfqSink(options: { actionUrl: string }): RfqSink {
+  const formFields: { [field: string]: string } = rfqConfig.formFields;
+  const hiddenFields: { [field: string]: string } = rfqConfig.hiddenFields;
+  return {
+    name: 'form',
+    async deliver(submission) {
+      const values = formValues(submission);
+      const params = new URLSearchParams();
+      Object.keys(formFields).forEach(key => {
+        const value = values[key];
+        if (formFields[key] && value) params.append(formFields[key], value);
+      });
+      Object.keys(hiddenFields).forEach(field => params.append(field, hiddenFields[field]));
+
+      await postWithTimeout(options.actionUrl, params.toString(), { 'Content-Type': 'application/x-www-form-urlencoded' }, 'RFQ form');
+    }
+  };
+}
+
+export function createSmtpRfqSink(options: { smtpUrl: string; from: string; to: string[] }): RfqSink {
+  return {
+    name: 'smtp',
+    async deliver(submission) {
+      await sendSmtpMail(options.smtpUrl, {
+        from: options.from,
+        to: options.to,
+        subject: `Ask Ed quote request ${submission.reference}: ${submission.quantity} x ${submission.sku || submission.productTitle || 'product'}`,
+        text: formatRfqText(submission),
+        replyTo: submission.customer.email
+      });
+    }
+  };
+}
+
+// JSON POST with the request and a plain text rendering; signed with HMAC-SHA256 when a secret is set
+export function createWebhookRfqSink(options: { url: string; secret?: string }): RfqSink {
+  return {
+    name: 'webhook',
+    async deliver(submission) {
+      await postSignedJson(options.url, { type: 'ask_ed.rfq', text: formatRfqText(submission), rfq: submission }, options.secret, 'RFQ webhook');
+    }
+  };
+}
+
+// One JSON file per request - meant for local development and testing
+export function createFileRfqSink(): RfqSink {
+  return {
+    name: 'file',
+    async deliver(submission) {
+      fs.writeFileSync(getDataPath('rfq', `${submission.reference}.json`), JSON.stringify(submission, null, 2));
+    }
+  };
+}
+
+let rfqSink: RfqSink | null = null;
+
+// RFQ_SINK=form|smtp|webhook|file - defaults to form when RFQ_FORM_ACTION_URL is set, then
+// smtp when SMTP_URL and RFQ_EMAIL_TO are set, then webhook when RFQ_WEBHOOK_URL is set, otherwise file
+export function getRfqSink(): RfqSink {
+  if (rfqSink) return rfqSink;
+
+  const formActionUrl = process.env.RFQ_FORM_ACTION_URL;
+  const smtpUrl = process.env.SMTP_URL;
+  const emailTo = (process.env.RFQ_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+  const webhookUrl = process.env.RFQ_WEBHOOK_URL;
+  const sinkType = process.env.RFQ_SINK ||
+    (formActionUrl ? 'form' : smtpUrl && emailTo.length > 0 ? 'smtp' : webhookUrl ? 'webhook' : 'file');
+
+  if (sinkType === 'form' && formActionUrl) {
+    rfqSink = createFormRfqSink({ actionUrl: formActionUrl });
+  } else if (sinkType === 'smtp' && smtpUrl && emailTo.length > 0) {
+    rfqSink = createSmtpRfqSink({
+      smtpUrl,
+      from: process.env.RFQ_EMAIL_FROM || process.env.HANDOFF_EMAIL_FROM || 'Ask Ed <ask-ed@bravoelectro.com>',
+      to: emailTo
+    });
+  } else if (sinkType === 'webhook' && webhookUrl) {
+    rfqSink = createWebhookRfqSink({ url: webhookUrl, secret: process.env.RFQ_WEBHOOK_SECRET });
+  } else {
+    if (sinkType === 'form') {
+      console.error('RFQ_SINK=form but RFQ_FORM_ACTION_URL is not set - falling back to file sink');
+    } else if (sinkType === 'smtp') {
+      console.error('RFQ_SINK=smtp needs SMTP_URL and RFQ_EMAIL_TO - falling back to file sink');
+    } else if (sinkType === 'webhook') {
+      console.error('RFQ_SINK=webhook but RFQ_WEBHOOK_URL is not set - falling back to file sink');
+    }
+    rfqSink = createFileRfqSink();
+  }
+
+  console.log('RFQ sink:', rfqSink.name);
+  return rfqSink;
+}
+
+// Throws when the sink can't deliver - the customer must not get a reference for a lost request
+export async function submitRfq(request: Omit<RfqSubmission, 'reference' | 'submittedAt'>): Promise<RfqSubmission> {
+  const now = new Date();
+  const submission: RfqSubmission = Object.assign({
+    reference: createReference('RFQ', now),
+    submittedAt: now.toISOString()
+  }, request);
+
+  const sink = getRfqSink();
+  await sink.deliver(submission);
+  console.log('RFQ delivered:', submission.reference, sink.name, `${submission.quantity} x ${submission.sku || submission.productTitle}`);
+  return submission;
+}
@@ -0,0 +1,67 @@
+// Safety classifier - questions about mains wiring, paralleling outputs, medical or
+// hazardous-location use, exceeding ratings and modifying units are never answered
+// like spec questions. Categories, patterns and responses live in config/safety.json;
+// the answer is the category response followed by the expertConsultation template.
+import safetyConfig from '../config/safety.json';
+
+export interface SafetyCategory {
+  id: string;
+  label: string;
+  patterns: string[]; // Case-insensitive regular expressions
+  response: string;
+}
+
+export interface SafetyResult {
+  category: string;
+  label: string;
+  response: string;
+  matchedPatterns: string[];
+}
+
+interface CompiledCategory {
+  category: SafetyCategory;
+  patterns: RegExp[];
+}
+
+let compiledCategories: CompiledCategory[] | null = null;
+
+// Throws on an invalid pattern so a bad config edit fails when the API route loads
+function getCompiledCategories(): CompiledCategory[] {
+  if (!compiledCategories) {
+    compiledCategories = (safetyConfig.categories as SafetyCategory[]).map(category => ({
+      category,
+      patterns: category.patterns.map(pattern => {
+        try {
+          return new RegExp(pattern, 'i');
+        } catch (error) {
+          throw new Error(`Invalid pattern in config/safety.json (${category.id}): ${pattern}`);
+        }
+      })
+    }));
+  }
+  return compiledCategories;
+}
+
+export function getSafetyCategories(): SafetyCategory[] {
+  return getCompiledCategories().map(compiled => compiled.category);
+}
+
+// First matching category in config order
+export function classifySafety(question: string): SafetyResult | null {
+  for (const compiled of getCompiledCategories()) {
+    const matched = compiled.patterns.filter(pattern => pattern.test(question));
+    if (matched.length > 0) {
+      return {
+        category: compiled.category.id,
+        label: compiled.category.label,
+        response: compiled.category.response,
+        matchedPatterns: matched.map(pattern => pattern.source)
+      };
+    }
+  }
+  return null;
+}
+
+export function formatSafetyAnswer(safety: SafetyResult, expertConsultation: string): string {
+  return `${safety.response} ${expertConsultation}`;
+}
@@ -0,0 +1,166 @@
+// Safety event log - every safety-critical question that was escalated to a Bravo Power
+// Expert, kept apart from the exchange log for compliance review in /admin/exchanges.
+// Stores: memory (per instance), file (one JSONL file per day) and redis (shared)
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataPath } from './dataDir';
+import { getRedisClient } from './redisClient';
+
+export interface SafetyEvent {
+  id: string;
+  timestamp: string; // ISO 8601
+  conversationId: string;
+  exchangeId?: string; // Matching record in the exchange log
+  question: string;
+  productTitle: string;
+  category: string; // config/safety.json category id
+  label: string;
+  matchedPatterns: string[];
+  answer: string;
+}
+
+export interface SafetyEventSearch {
+  category?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string;   // YYYY-MM-DD
+}
+
+export interface SafetyLogStore {
+  readonly backend: string;
+  append(event: SafetyEvent): Promise<void>;
+  listDay(day: string): Promise<SafetyEvent[]>;
+}
+
+// Compliance records are kept longer than the exchange log by default
+const RETENTION_DAYS = parseInt(process.env.SAFETY_LOG_RETENTION_DAYS || '365', 10);
+const MAX_MEMORY_EVENTS = 2000;
+const MAX_SEARCH_DAYS = 31;
+const DEFAULT_SEARCH_DAYS = 7;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayOf(timestamp: string): string {
+  return timestamp.substring(0, 10);
+}
+
+export function createMemorySafetyLogStore(): SafetyLogStore {
+  const events: SafetyEvent[] = [];
+
+  return {
+    backend: 'memory',
+    async append(event) {
+      events.push(event);
+      if (events.length > MAX_MEMORY_EVENTS) {
+        events.splice(0, events.length - MAX_MEMORY_EVENTS);
+      }
+    },
+    async listDay(day) {
+      return events.filter(event => dayOf(event.timestamp) === day);
+    }
+  };
+}
+
+// JSONL file per day - single process only, meant for local development
+export function createFileSafetyLogStore(directory: string = path.dirname(getDataPath('safety', '.keep'))): SafetyLogStore {
+  const filePathFor = (day: string) => path.join(directory, `${day}.jsonl`);
+
+  return {
+    backend: 'file',
+    async append(event) {
+      fs.appendFileSync(filePathFor(dayOf(event.timestamp)), JSON.stringify(event) + '\n');
+    },
+    async listDay(day) {
+      try {
+        return fs.readFileSync(filePathFor(day), 'utf8')
+          .split('\n')
+          .filter(line => line.trim())
+          .map(line => JSON.parse(line));
+      } catch (error) {
+        return [];
+      }
+    }
+  };
+}
+
+// One list per day, expiring after the retention period
+export function createRedisSafetyLogStore(redisUrl: string, keyPrefix: string = 'askEd:safety:'): SafetyLogStore {
+  const redis = getRedisClient(redisUrl);
+  const retentionMs = RETENTION_DAYS * 86400000;
+
+  return {
+    backend: 'redis',
+    async append(event) {
+      const dayKey = `${keyPrefix}day:${dayOf(event.timestamp)}`;
+      await redis.command(['RPUSH', dayKey, JSON.stringify(event)]);
+      await redis.command(['PEXPIRE', dayKey, retentionMs]);
+    },
+    async listDay(day) {
+      const values = await redis.command(['LRANGE', `${keyPrefix}day:${day}`, 0, -1]) as string[] | null;
+      return (values || []).map(value => JSON.parse(value));
+    }
+  };
+}
+
+let safetyLogStore: SafetyLogStore | null = null;
+
+// SAFETY_LOG_STORE=memory|file|redis - defaults to redis when REDIS_URL is set
+export function getSafetyLogStore(): SafetyLogStore {
+  if (safetyLogStore) return safetyLogStore;
+
+  const storeType = process.env.SAFETY_LOG_STORE || (process.env.REDIS_URL ? 'redis' : 'memory');
+
+  if (storeType === 'redis' && process.env.REDIS_URL) {
+    safetyLogStore = createRedisSafetyLogStore(process.env.REDIS_URL);
+  } else if (storeType === 'file') {
+    safetyLogStore = createFileSafetyLogStore();
+  } else {
+    if (storeType === 'redis') {
+      console.error('SAFETY_LOG_STORE=redis but REDIS_URL is not set - falling back to memory store');
+    }
+    safetyLogStore = createMemorySafetyLogStore();
+  }
+
+  console.log('Safety log store:', safetyLogStore.backend);
+  return safetyLogStore;
+}
+
+// Never throws - a logging failure must not cost the customer their answer
+export async function logSafetyEvent(event: Omit<SafetyEvent, 'id' | 'timestamp'>): Promise<SafetyEvent | null> {
+  const now = new Date();
+  const record: SafetyEvent = Object.assign({
+    id: `${now.toISOString().substring(0, 10)}-${crypto.randomBytes(6).toString('hex')}`,
+    timestamp: now.toISOString()
+  }, event);
+
+  try {
+    await getSafetyLogStore().append(record);
+    console.log('Safety event logged:', record.id, record.category);
+    return record;
+  } catch (error) {
+    console.error('Safety log error:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+// Newest first; dates are UTC days and the range is capped at MAX_SEARCH_DAYS
+export async function searchSafetyEvents(search: SafetyEventSearch): Promise<SafetyEvent[]> {
+  const today = new Date().toISOString().substring(0, 10);
+  const to = search.to && DAY_PATTERN.test(search.to) ? search.to : today;
+  const defaultFrom = new Date(`${to}T00:00:00Z`);
+  defaultFrom.setUTCDate(defaultFrom.getUTCDate() - (DEFAULT_SEARCH_DAYS - 1));
+  const from = search.from && DAY_PATTERN.test(search.from) ? search.from : defaultFrom.toISOString().substring(0, 10);
+
+  const store = getSafetyLogStore();
+  const events: SafetyEvent[] = [];
+  const cursor = new Date(`${to}T00:00:00Z`);
+  const start = new Date(`${from}T00:00:00Z`);
+  for (let days = 0; cursor >= start && days < MAX_SEARCH_DAYS; days++) {
+    const dayEvents = await store.listDay(cursor.toISOString().substring(0, 10));
+    dayEvents
+      .filter(event => !search.category || event.category === search.category)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .forEach(event => events.push(event));
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  return events;
+}
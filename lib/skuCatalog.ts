@@ -0,0 +1,175 @@
+// SKU catalog - the real Bravo Electro part numbers and their URL keys, loaded from a
+// Magento catalog export. Answers only link part numbers found here; part numbers
+// that look like SKUs but aren't in the catalog were most likely invented by the model.
+// SKU_CATALOG_PATH=exports/catalog_product.csv (Magento product export) or .json
+import fs from 'fs';
+import path from 'path';
+import { getCustomAttribute, MagentoProduct, MagentoSearchResult } from './magento';
+
+export interface SkuCatalogEntry {
+  sku: string;
+  urlKey: string;
+  name?: string;
+}
+
+export interface SkuCatalog {
+  readonly source: string;
+  readonly size: number;
+  lookup(sku: string): SkuCatalogEntry | null;
+}
+
+// A flat { sku, url_key, name } entry or a Magento REST product
+interface SkuCatalogJsonItem extends MagentoProduct {
+  url_key?: string;
+  urlKey?: string;
+}
+
+const PRODUCT_URL_BASE = 'https://www.bravoelectro.com/';
+const PRODUCT_URL_SUFFIX = '.html';
+
+// Part-number-shaped tokens: HLG-120H-48A, LRS-350-24, SDR-480P-48
+const SKU_CANDIDATE_PATTERN = /\b([A-Z]{2,}[-\w\.]*[A-Z0-9])\b/gi;
+// Standards and certifications that share the shape: EN61347-2-13, IEC61000-4-2, UL8750
+const STANDARD_PATTERN = /^[A-Z]{2,6}\d{3,}(?:-\d+)*$/i;
+
+let skuCatalog: SkuCatalog | null = null;
+
+// Minimal RFC 4180 parser - Magento exports quote descriptions containing commas and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Magento product export: sku, url_key and name columns; store view rows and disabled products are skipped
+function parseCatalogCsv(text: string): SkuCatalogEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+  const skuIndex = column('sku');
+  const urlKeyIndex = column('url_key');
+  const nameIndex = column('name');
+  const storeViewIndex = column('store_view_code');
+  const onlineIndex = column('product_online');
+  if (skuIndex === -1 || urlKeyIndex === -1) {
+    throw new Error('SKU catalog CSV needs sku and url_key columns');
+  }
+
+  return rows
+    .filter(cells => storeViewIndex === -1 || !cells[storeViewIndex])
+    .filter(cells => onlineIndex === -1 || cells[onlineIndex] !== '2')
+    .map(cells => ({
+      sku: (cells[skuIndex] || '').trim(),
+      urlKey: (cells[urlKeyIndex] || '').trim(),
+      name: nameIndex === -1 ? undefined : cells[nameIndex]
+    }));
+}
+
+// [{ sku, url_key | urlKey, name }] or a Magento REST search result ({ items: [...] } with custom_attributes)
+function parseCatalogJson(text: string): SkuCatalogEntry[] {
+  const data: SkuCatalogJsonItem[] | MagentoSearchResult<SkuCatalogJsonItem> = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data.items || [];
+
+  return items.map(item => ({
+    sku: String(item.sku || '').trim(),
+    urlKey: String(item.url_key || item.urlKey || getCustomAttribute(item, 'url_key') || '').trim(),
+    name: item.name
+  }));
+}
+
+export function createSkuCatalog(entries: SkuCatalogEntry[], source: string): SkuCatalog {
+  const bySku = new Map<string, SkuCatalogEntry>();
+  entries
+    .filter(entry => entry.sku && entry.urlKey)
+    .forEach(entry => {
+      if (!bySku.has(entry.sku.toUpperCase())) bySku.set(entry.sku.toUpperCase(), entry);
+    });
+
+  return {
+    source,
+    size: bySku.size,
+    lookup(sku) {
+      return bySku.get(sku.trim().toUpperCase()) || null;
+    }
+  };
+}
+
+export function loadSkuCatalog(filePath: string): SkuCatalog {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const entries = path.extname(filePath).toLowerCase() === '.json' ? parseCatalogJson(text) : parseCatalogCsv(text);
+  return createSkuCatalog(entries, filePath);
+}
+
+// Empty catalog when SKU_CATALOG_PATH is unset or unreadable - nothing is auto-linked then
+export function getSkuCatalog(): SkuCatalog {
+  if (!skuCatalog) {
+    const catalogPath = process.env.SKU_CATALOG_PATH;
+    try {
+      skuCatalog = catalogPath
+        ? loadSkuCatalog(path.resolve(process.cwd(), catalogPath))
+        : createSkuCatalog([], 'none');
+    } catch (error) {
+      console.error('SKU catalog load error:', error instanceof Error ? error.message : String(error));
+      skuCatalog = createSkuCatalog([], 'none');
+    }
+    console.log('SKU catalog:', skuCatalog.source, `${skuCatalog.size} SKUs`);
+  }
+  return skuCatalog;
+}
+
+export function getProductUrl(entry: SkuCatalogEntry): string {
+  return `${PRODUCT_URL_BASE}${entry.urlKey}${PRODUCT_URL_SUFFIX}`;
+}
+
+// Part numbers in an answer that aren't in the catalog. knownModels covers the current
+// product and its datasheet column (e.g. HLG-120H-48 for HLG-120H-48A).
+export function findUnknownSkus(answerText: string, knownModels: string[] = []): string[] {
+  const catalog = getSkuCatalog();
+  if (catalog.size === 0) return [];
+
+  const known = knownModels.map(model => model.toUpperCase());
+  const text = answerText.replace(/https?:\/\/\S+/gi, ' ').replace(/\S+\.html\b/gi, ' ');
+  const unknown: string[] = [];
+  (text.match(SKU_CANDIDATE_PATTERN) || []).forEach(candidate => {
+    const sku = candidate.toUpperCase();
+    const looksLikeSku = sku.indexOf('-') !== -1 && /[A-Z]/.test(sku) && /\d/.test(sku) && !STANDARD_PATTERN.test(sku);
+    if (!looksLikeSku || known.indexOf(sku) !== -1) return;
+    if (!catalog.lookup(sku) && unknown.indexOf(sku) === -1) unknown.push(sku);
+  });
+  return unknown;
+}
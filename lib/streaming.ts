@@ -0,0 +1,45 @@
+// Server-Sent Events helpers for streaming Ask Ed answers
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export function wantsEventStream(req: NextApiRequest): boolean {
+  const accept = req.headers.accept?.toString() || '';
+  return req.body?.stream === true || accept.includes('text/event-stream');
+}
+
+export function startEventStream(res: NextApiResponse) {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering so tokens arrive as generated
+  res.flushHeaders?.();
+}
+
+export function sendEvent(res: NextApiResponse, event: string, data: object) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // Compression middleware buffers writes unless explicitly flushed
+  const flushable = res as unknown as { flush?: () => void };
+  flushable.flush?.();
+}
+
+// Return the part of a partial answer that is safe to post-process.
+// Cuts at the last whitespace (so half-written part numbers and URLs are never
+// linked) and before any markdown link whose [text](url) is not yet closed.
+export function getStableStreamingText(partial: string): string {
+  let stable = partial;
+
+  const lastWhitespace = Math.max(stable.lastIndexOf(' '), stable.lastIndexOf('\n'));
+  stable = lastWhitespace === -1 ? '' : stable.substring(0, lastWhitespace + 1);
+
+  const lastOpenBracket = stable.lastIndexOf('[');
+  if (lastOpenBracket !== -1) {
+    const tail = stable.substring(lastOpenBracket);
+    const isClosedLink = /^\[[^\]]*\]\([^)]*\)/.test(tail);
+    const isPlainBracket = /^\[[^\]]*\](?!\()/.test(tail) && !/^\[[^\]]*\]$/.test(tail.trimEnd());
+    if (!isClosedLink && !isPlainBracket) {
+      stable = stable.substring(0, lastOpenBracket);
+    }
+  }
+
+  return stable;
+}
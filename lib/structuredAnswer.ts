@@ -0,0 +1,85 @@
+// Structured answer payload - lets clients render and theme answers themselves
+// instead of injecting the legacy pre-rendered HTML string. Source citations are
+// returned next to it on the response (lib/citations).
+
+export type AnswerLinkType = 'datasheet' | 'rfq' | 'product' | 'accessory' | 'external';
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; href: string; linkType: AnswerLinkType; sku?: string };
+
+export interface ContactAction {
+  type: 'rfq' | 'expert';
+  label: string;
+  href: string;
+  phone?: string;
+}
+
+export interface StructuredAnswer {
+  segments: AnswerSegment[];
+  contactAction: ContactAction | null;
+}
+
+export interface StructuredAnswerContext {
+  datasheetUrl?: string;
+  accessories?: string;
+}
+
+const RFQ_FORM_URL = 'https://www.bravoelectro.com/rfq-form';
+const EXPERT_PHONE = '408-733-9090';
+const LINK_PATTERN = /<a href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+const PRODUCT_URL_PATTERN = /^https:\/\/www\.bravoelectro\.com\/[a-z0-9\-]+\.html$/i;
+
+function stripTags(text: string): string {
+  return text.replace(/<\/?[a-z][^>]*>/gi, '');
+}
+
+function classifyLink(href: string, text: string, context: StructuredAnswerContext): { linkType: AnswerLinkType; sku?: string } {
+  if (href.includes('bravoelectro.com/rfq-form')) return { linkType: 'rfq' };
+  if ((context.datasheetUrl && href === context.datasheetUrl) || /\.pdf($|\?)/i.test(href)) return { linkType: 'datasheet' };
+
+  if (PRODUCT_URL_PATTERN.test(href)) {
+    const sku = text.trim();
+    const isAccessory = !!context.accessories && context.accessories.toUpperCase().includes(sku.toUpperCase());
+    return { linkType: isAccessory ? 'accessory' : 'product', sku };
+  }
+
+  return { linkType: 'external' };
+}
+
+function findContactAction(segments: AnswerSegment[], answerText: string): ContactAction | null {
+  if (segments.some(segment => segment.type === 'link' && segment.linkType === 'rfq')) {
+    return { type: 'rfq', label: 'Request a Quote', href: RFQ_FORM_URL };
+  }
+  if (answerText.includes(EXPERT_PHONE)) {
+    return { type: 'expert', label: 'Call a Bravo Power Expert', href: 'tel:+14087339090', phone: EXPERT_PHONE };
+  }
+  return null;
+}
+
+// Build from the post-processed answer so links match the legacy HTML exactly
+export function buildStructuredAnswer(processedAnswer: string, context: StructuredAnswerContext): StructuredAnswer {
+  const segments: AnswerSegment[] = [];
+  const pushText = (text: string) => {
+    const clean = stripTags(text);
+    if (clean) segments.push({ type: 'text', text: clean });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  LINK_PATTERN.lastIndex = 0;
+  while ((match = LINK_PATTERN.exec(processedAnswer)) !== null) {
+    pushText(processedAnswer.substring(lastIndex, match.index));
+    const text = stripTags(match[2]);
+    segments.push(Object.assign({ type: 'link' as const, text, href: match[1] }, classifyLink(match[1], text, context)));
+    lastIndex = LINK_PATTERN.lastIndex;
+  }
+  pushText(processedAnswer.substring(lastIndex));
+
+  const answerText = segments.map(segment => segment.text).join('');
+
+  return {
+    segments,
+    contactAction: findContactAction(segments, answerText)
+  };
+}
@@ -0,0 +1,87 @@
+// Short-lived signed tokens issued to the widget when it loads (GET /api/widget-token)
+// and verified on every /api/ask call. Tokens are HMAC-SHA256 signed with
+// WIDGET_TOKEN_SECRET and bound to the page origin that requested them.
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ApiErrorCode, sendApiError } from './apiErrors';
+
+export type WidgetTokenStatus = 'valid' | 'missing' | 'invalid' | 'expired';
+
+interface WidgetTokenPayload {
+  origin: string;
+  expiresAt: number; // Unix seconds
+  nonce: string;
+}
+
+const DEFAULT_TTL_SECONDS = 900; // 15 minutes
+
+const TOKEN_ERRORS: { [status: string]: { code: ApiErrorCode; message: string } } = {
+  missing: { code: 'WIDGET_TOKEN_MISSING', message: 'Missing widget token. Please reload the page.' },
+  invalid: { code: 'WIDGET_TOKEN_INVALID', message: 'Invalid widget token. Please reload the page.' },
+  expired: { code: 'WIDGET_TOKEN_EXPIRED', message: 'Your session expired. Please reload the page.' }
+};
+
+// Tokens are only enforced once a signing secret is configured
+export function isWidgetTokenRequired(): boolean {
+  return !!process.env.WIDGET_TOKEN_SECRET;
+}
+
+function getTokenTtlSeconds(): number {
+  const ttl = parseInt(process.env.WIDGET_TOKEN_TTL_SECONDS || '', 10);
+  return isNaN(ttl) || ttl <= 0 ? DEFAULT_TTL_SECONDS : ttl;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', process.env.WIDGET_TOKEN_SECRET || '').update(encodedPayload).digest('base64url');
+}
+
+function normalizeOrigin(origin: string | undefined): string {
+  return (origin || '').trim().replace(/\/+$/, '').toLowerCase();
+}
+
+export function createWidgetToken(origin: string | undefined): { token: string; expiresAt: number } {
+  const payload: WidgetTokenPayload = {
+    origin: normalizeOrigin(origin),
+    expiresAt: Math.floor(Date.now() / 1000) + getTokenTtlSeconds(),
+    nonce: crypto.randomBytes(8).toString('hex')
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${encodedPayload}.${sign(encodedPayload)}`, expiresAt: payload.expiresAt };
+}
+
+export function verifyWidgetToken(token: string | undefined, origin: string | undefined): WidgetTokenStatus {
+  if (!token) return 'missing';
+
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return 'invalid';
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) return 'invalid';
+
+  let payload: WidgetTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch (error) {
+    return 'invalid';
+  }
+
+  // A token lifted from one site can't be replayed from another
+  if (payload.origin !== normalizeOrigin(origin)) return 'invalid';
+  if (Math.floor(Date.now() / 1000) > payload.expiresAt) return 'expired';
+
+  return 'valid';
+}
+
+// Checks the X-Ask-Ed-Token header when tokens are enforced. Returns false when the request
+// has been rejected with a 401 and the route should stop.
+export function requireWidgetToken(req: NextApiRequest, res: NextApiResponse): boolean {
+  if (!isWidgetTokenRequired()) return true;
+
+  const tokenStatus = verifyWidgetToken(req.headers['x-ask-ed-token']?.toString(), req.headers.origin?.toString());
+  if (tokenStatus === 'valid') return true;
+
+  console.log('Widget token rejected:', tokenStatus, req.headers.origin, req.url);
+  sendApiError(res, 401, TOKEN_ERRORS[tokenStatus].code, TOKEN_ERRORS[tokenStatus].message);
+  return false;
+}
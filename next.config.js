@@ -3,6 +3,7 @@ const nextConfig = {
   reactStrictMode: true,
   
   // CORS configuration for widget embedding
+  // API routes set their own CORS headers from ALLOWED_ORIGINS (lib/cors.ts)
   async headers() {
     return [
       {
@@ -18,23 +19,6 @@ const nextConfig = {
           },
         ],
       },
-      {
-        source: '/api/ask',
-        headers: [
-          {
-            key: 'Access-Control-Allow-Origin',
-            value: '*',
-          },
-          {
-            key: 'Access-Control-Allow-Methods',
-            value: 'POST, OPTIONS',
-          },
-          {
-            key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type',
-          },
-        ],
-      },
     ];
   },
 };
@@ -0,0 +1,461 @@
+import Head from 'next/head';
+import { useEffect, useState } from 'react';
+import type { ExchangeRecord, SkuFeedbackSummary, SpendSummary } from '../../lib/exchangeLog';
+import type { QuestionReport } from '../../lib/analyticsEvents';
+import type { SafetyEvent } from '../../lib/safetyLog';
+
+const TOKEN_STORAGE_KEY = 'askEdAdminToken';
+
+function stripHtml(html: string): string {
+  return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').replace(/&amp;/g, '&').trim();
+}
+
+function formatUsage(exchange: ExchangeRecord): string {
+  if (!exchange.usage) return '-';
+  const tokens = `${exchange.usage.promptTokens} + ${exchange.usage.completionTokens} = ${exchange.usage.totalTokens}`;
+  return exchange.costUsd !== undefined ? `${tokens} ($${exchange.costUsd.toFixed(4)})` : tokens;
+}
+
+export default function ExchangesAdmin() {
+  const [token, setToken] = useState('');
+  const [sku, setSku] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [exchanges, setExchanges] = useState<ExchangeRecord[]>([]);
+  const [skuFeedback, setSkuFeedback] = useState<SkuFeedbackSummary[]>([]);
+  const [spend, setSpend] = useState<SpendSummary | null>(null);
+  const [safetyEvents, setSafetyEvents] = useState<SafetyEvent[] | null>(null);
+  const [questionReport, setQuestionReport] = useState<QuestionReport | null>(null);
+  const [transcript, setTranscript] = useState<ExchangeRecord[]>([]);
+  const [selected, setSelected] = useState<ExchangeRecord | null>(null);
+  const [flagNote, setFlagNote] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, []);
+
+  const adminFetch = async (url: string, options: RequestInit = {}) => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    const response = await fetch(url, Object.assign({}, options, {
+      headers: Object.assign({ 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }, options.headers)
+    }));
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    return data;
+  };
+
+  const filterParams = (withSku: boolean) => {
+    const params = new URLSearchParams();
+    if (withSku && sku) params.set('sku', sku);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return params;
+  };
+
+  // Every panel is a GET with the current filters - field names the part of the response it shows
+  const load = async <T,>(endpoint: string, params: URLSearchParams, field: string, setter: (value: T) => void) => {
+    setLoading(true);
+    setError('');
+    try {
+      const data = await adminFetch(`${endpoint}?${params.toString()}`);
+      setter(data[field]);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const search = () => {
+    const params = filterParams(true);
+    if (flaggedOnly) params.set('flagged', '1');
+    if (lowConfidenceOnly) params.set('lowConfidence', '1');
+    return load<ExchangeRecord[]>('/api/admin/exchanges', params, 'exchanges', setExchanges);
+  };
+  const loadSkuFeedback = () => load<SkuFeedbackSummary[]>('/api/admin/feedback', filterParams(true), 'skus', setSkuFeedback);
+  const loadSpend = () => load<SpendSummary>('/api/admin/spend', filterParams(true), 'spend', setSpend);
+  const loadSafetyEvents = () => load<SafetyEvent[]>('/api/admin/safety', filterParams(false), 'events', setSafetyEvents);
+  const loadQuestionReport = () => load<QuestionReport>('/api/admin/questions', filterParams(false), 'report', setQuestionReport);
+
+  const openTranscript = async (exchange: ExchangeRecord) => {
+    setSelected(exchange);
+    setFlagNote(exchange.flagNote || '');
+    setError('');
+    try {
+      const params = new URLSearchParams({ conversationId: exchange.conversationId, from: exchange.timestamp.substring(0, 10) });
+      const data = await adminFetch(`/api/admin/exchanges?${params.toString()}`);
+      setTranscript((data.exchanges as ExchangeRecord[]).slice().reverse());
+    } catch (transcriptError) {
+      setError(transcriptError instanceof Error ? transcriptError.message : String(transcriptError));
+    }
+  };
+
+  const setFlag = async (exchange: ExchangeRecord, flagged: boolean) => {
+    setError('');
+    try {
+      const data = await adminFetch('/api/admin/exchanges', {
+        method: 'PATCH',
+        body: JSON.stringify({ id: exchange.id, flagged, note: flagNote })
+      });
+      const updated: ExchangeRecord = data.exchange;
+      setSelected(updated);
+      setExchanges(current => current.map(item => item.id === updated.id ? updated : item));
+      setTranscript(current => current.map(item => item.id === updated.id ? updated : item));
+    } catch (flagError) {
+      setError(flagError instanceof Error ? flagError.message : String(flagError));
+    }
+  };
+
+  const inputStyle = { padding: '6px 8px', marginRight: '10px', border: '1px solid #ccc', borderRadius: '4px' };
+  const cellStyle = { padding: '8px', borderBottom: '1px solid #eee', verticalAlign: 'top' as const, fontSize: '13px' };
+
+  return (
+    <>
+      <Head>
+        <title>Ask Ed - Exchange Review</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+
+      <div style={{ padding: '30px', fontFamily: 'Arial, sans-serif', maxWidth: '1200px', margin: '0 auto' }}>
+        <h1 style={{ color: '#2c5aa0' }}>Ask Ed Exchange Review</h1>
+        <p>Search logged answers by SKU or date and flag wrong answers for the accuracy workflow in <code>ASK_ED_AGENT.md</code>.</p>
+
+        <div style={{ background: '#f8f9fa', padding: '15px', borderRadius: '8px', marginBottom: '20px' }}>
+          <input type="password" placeholder="Admin token" value={token} onChange={e => setToken(e.target.value)} style={inputStyle} />
+          <input placeholder="SKU (e.g. HLG-120H-48A)" value={sku} onChange={e => setSku(e.target.value)} style={inputStyle} />
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} style={inputStyle} />
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} style={inputStyle} />
+          <label style={{ marginRight: '10px' }}>
+            <input type="checkbox" checked={flaggedOnly} onChange={e => setFlaggedOnly(e.target.checked)} /> Flagged only
+          </label>
+          <label style={{ marginRight: '10px' }}>
+            <input type="checkbox" checked={lowConfidenceOnly} onChange={e => setLowConfidenceOnly(e.target.checked)} /> Low confidence only
+          </label>
+          <button
+            onClick={search}
+            disabled={loading || !token}
+            style={{ background: '#2c5aa0', color: 'white', border: 'none', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {loading ? 'Searching...' : 'Search'}
+          </button>
+          <button
+            onClick={loadSkuFeedback}
+            disabled={loading || !token}
+            style={{ marginLeft: '10px', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Feedback by SKU
+          </button>
+          <button
+            onClick={loadSpend}
+            disabled={loading || !token}
+            style={{ marginLeft: '10px', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Spend by model
+          </button>
+          <button
+            onClick={loadSafetyEvents}
+            disabled={loading || !token}
+            style={{ marginLeft: '10px', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Safety events
+          </button>
+          <button
+            onClick={loadQuestionReport}
+            disabled={loading || !token}
+            style={{ marginLeft: '10px', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Content gaps
+          </button>
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>Dates are UTC; searches cover at most 31 days (default: last 7 days).</div>
+        </div>
+
+        {error && (
+          <div style={{ padding: '10px', background: '#ffebee', border: '1px solid #ffcdd2', borderRadius: '4px', marginBottom: '20px' }}>
+            {error}
+          </div>
+        )}
+
+        {skuFeedback.length > 0 && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2>Customer Feedback by SKU</h2>
+            <p style={{ fontSize: '13px', color: '#666' }}>Worst first. Thumbs down together with datasheet failures usually means the datasheet extraction for that product is broken.</p>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+                  <th style={cellStyle}>SKU</th>
+                  <th style={cellStyle}>Exchanges</th>
+                  <th style={cellStyle}>👍</th>
+                  <th style={cellStyle}>👎</th>
+                  <th style={cellStyle}>👎 rate</th>
+                  <th style={cellStyle}>Datasheet failures</th>
+                  <th style={cellStyle}>Recent comments</th>
+                </tr>
+              </thead>
+              <tbody>
+                {skuFeedback.map(summary => (
+                  <tr key={summary.sku} onClick={() => setSku(summary.sku)} style={{ cursor: 'pointer' }}>
+                    <td style={cellStyle}>{summary.sku}</td>
+                    <td style={cellStyle}>{summary.exchanges}</td>
+                    <td style={cellStyle}>{summary.thumbsUp}</td>
+                    <td style={cellStyle}>{summary.thumbsDown}</td>
+                    <td style={cellStyle}>{Math.round(summary.downRate * 100)}%</td>
+                    <td style={cellStyle}>{summary.datasheetFailures}</td>
+                    <td style={cellStyle}>{summary.recentComments.join(' · ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {spend && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2>Spend by Model</h2>
+            <p style={{ fontSize: '13px', color: '#666' }}>
+              Estimated from the price table in <code>config/model-routing.json</code>. Total: ${spend.totalCostUsd.toFixed(4)}
+            </p>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '20px' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+                  <th style={cellStyle}>Day (UTC)</th>
+                  <th style={cellStyle}>Model</th>
+                  <th style={cellStyle}>Calls</th>
+                  <th style={cellStyle}>Prompt tokens</th>
+                  <th style={cellStyle}>Completion tokens</th>
+                  <th style={cellStyle}>Cost (USD)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {spend.days.map(day => (
+                  <tr key={`${day.day}:${day.model}`}>
+                    <td style={cellStyle}>{day.day}</td>
+                    <td style={cellStyle}>{day.model}</td>
+                    <td style={cellStyle}>{day.calls}</td>
+                    <td style={cellStyle}>{day.promptTokens}</td>
+                    <td style={cellStyle}>{day.completionTokens}</td>
+                    <td style={cellStyle}>${day.costUsd.toFixed(4)}</td>
+                  </tr>
+                ))}
+                {spend.days.length === 0 && (
+                  <tr><td style={cellStyle} colSpan={6}>No completions in this range.</td></tr>
+                )}
+              </tbody>
+            </table>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+                  <th style={cellStyle}>Routing rule</th>
+                  <th style={cellStyle}>Model</th>
+                  <th style={cellStyle}>Times fired</th>
+                </tr>
+              </thead>
+              <tbody>
+                {spend.rules.map(rule => (
+                  <tr key={`${rule.rule}:${rule.model}`}>
+                    <td style={cellStyle}>{rule.rule}</td>
+                    <td style={cellStyle}>{rule.model}</td>
+                    <td style={cellStyle}>{rule.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {safetyEvents && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2>Safety Events</h2>
+            <p style={{ fontSize: '13px', color: '#666' }}>
+              Safety-critical questions answered with the conservative response from <code>config/safety.json</code> and an expert referral. Newest first.
+            </p>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+                  <th style={cellStyle}>Time (UTC)</th>
+                  <th style={cellStyle}>Category</th>
+                  <th style={cellStyle}>Product</th>
+                  <th style={cellStyle}>Question</th>
+                  <th style={cellStyle}>Matched</th>
+                  <th style={cellStyle}>Exchange</th>
+                </tr>
+              </thead>
+              <tbody>
+                {safetyEvents.map(event => (
+                  <tr key={event.id}>
+                    <td style={cellStyle}>{event.timestamp.replace('T', ' ').substring(0, 19)}</td>
+                    <td style={cellStyle}>{event.label}</td>
+                    <td style={cellStyle}>{event.productTitle}</td>
+                    <td style={cellStyle}>{event.question}</td>
+                    <td style={cellStyle}><code>{event.matchedPatterns.join(' | ')}</code></td>
+                    <td style={cellStyle}>{event.exchangeId || '-'}</td>
+                  </tr>
+                ))}
+                {safetyEvents.length === 0 && (
+                  <tr><td style={cellStyle} colSpan={6}>No safety-critical questions in this range.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {questionReport && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2>Questions by Product and Category</h2>
+            <p style={{ fontSize: '13px', color: '#666' }}>
+              From the widget analytics events, {questionReport.from} to {questionReport.to}: {questionReport.sessions} sessions, {questionReport.widgetOpens} widget opens, {questionReport.quoteRequests} quote requests.
+              &quot;Not on page&quot; answers were not backed by the product page specs - the datasheet had them, or nothing did. Most gaps first.
+            </p>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+                  <th style={cellStyle}>Product</th>
+                  <th style={cellStyle}>Category</th>
+                  <th style={cellStyle}>Questions</th>
+                  <th style={cellStyle}>Not on page</th>
+                  <th style={cellStyle}>Datasheet only</th>
+                  <th style={cellStyle}>Unanswered</th>
+                  <th style={cellStyle}>Datasheet sections</th>
+                  <th style={cellStyle}>Sample questions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {questionReport.rows.map(row => (
+                  <tr key={`${row.productTitle}:${row.category}`}>
+                    <td style={cellStyle}>{row.sku ? `${row.productTitle} (${row.sku})` : row.productTitle}</td>
+                    <td style={cellStyle}>{row.category}</td>
+                    <td style={cellStyle}>{row.questions}</td>
+                    <td style={cellStyle}>{row.notOnPage} ({Math.round(row.notOnPageRate * 100)}%)</td>
+                    <td style={cellStyle}>{row.fromDatasheet}</td>
+                    <td style={cellStyle}>{row.unanswered}</td>
+                    <td style={cellStyle}>{row.datasheetSections.join(', ') || '-'}</td>
+                    <td style={cellStyle}>{row.sampleQuestions.join(' · ') || '-'}</td>
+                  </tr>
+                ))}
+                {questionReport.rows.length === 0 && (
+                  <tr><td style={cellStyle} colSpan={8}>No widget questions in this range.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', background: '#f0f4fa' }}>
+              <th style={cellStyle}>Time (UTC)</th>
+              <th style={cellStyle}>Product</th>
+              <th style={cellStyle}>Question</th>
+              <th style={cellStyle}>Model</th>
+              <th style={cellStyle}>Latency</th>
+              <th style={cellStyle}>Tokens</th>
+              <th style={cellStyle}>Customer</th>
+              <th style={cellStyle}>Flag</th>
+            </tr>
+          </thead>
+          <tbody>
+            {exchanges.map(exchange => (
+              <tr
+                key={exchange.id}
+                onClick={() => openTranscript(exchange)}
+                style={{ cursor: 'pointer', background: selected?.id === exchange.id ? '#eef3fb' : undefined }}
+              >
+                <td style={cellStyle}>{exchange.timestamp.replace('T', ' ').substring(0, 19)}</td>
+                <td style={cellStyle}>{exchange.productTitle}</td>
+                <td style={cellStyle}>{exchange.question}</td>
+                <td style={cellStyle}>{exchange.model}{exchange.lowConfidence ? ' ⚠️' : ''}</td>
+                <td style={cellStyle}>{exchange.latencyMs} ms</td>
+                <td style={cellStyle}>{formatUsage(exchange)}</td>
+                <td style={cellStyle}>{exchange.feedback ? (exchange.feedback.rating === 'up' ? '👍' : '👎') : ''}</td>
+                <td style={cellStyle}>{exchange.flagged ? '🚩' : ''}</td>
+              </tr>
+            ))}
+            {exchanges.length === 0 && (
+              <tr><td style={cellStyle} colSpan={8}>No exchanges found.</td></tr>
+            )}
+          </tbody>
+        </table>
+
+        {selected && (
+          <div style={{ marginTop: '30px', padding: '20px', border: '1px solid #ddd', borderRadius: '8px' }}>
+            <h2 style={{ marginTop: 0 }}>Transcript - {selected.productTitle}</h2>
+            <p style={{ fontSize: '13px', color: '#666' }}>
+              Conversation {selected.conversationId}
+              {selected.datasheetUrl && <> · <a href={selected.datasheetUrl} target="_blank" rel="noopener noreferrer">Datasheet</a> ({selected.datasheetStatus || 'unknown'})</>}
+            </p>
+
+            {transcript.map(exchange => (
+              <div key={exchange.id} style={{ marginBottom: '15px', padding: '10px', borderRadius: '4px', background: exchange.id === selected.id ? '#fffbe6' : '#fafafa' }}>
+                <div><strong>Customer:</strong> {exchange.question}</div>
+                <div style={{ whiteSpace: 'pre-wrap', marginTop: '6px' }}><strong>Ed ({exchange.model}{exchange.routingRule ? ` via ${exchange.routingRule}` : ''}{exchange.configVersion ? `, config ${exchange.configVersion}` : ''}):</strong> {stripHtml(exchange.answer)}</div>
+                {exchange.citations && exchange.citations.length > 0 && (
+                  <ul style={{ margin: '6px 0 0', paddingLeft: '20px', fontSize: '12px', color: '#555' }}>
+                    {exchange.citations.map(citation => (
+                      <li key={citation.label}>
+                        {citation.label}{citation.line ? ` (line ${citation.line})` : ''}{citation.values.length > 0 ? ` - ${citation.values.join(', ')}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {exchange.numericGuard && (
+                  <div style={{ marginTop: '6px', color: '#b26a00', fontSize: '13px' }}>
+                    🔢 Unverified values {exchange.numericGuard.unverifiedValues.join(', ')}
+                    {exchange.numericGuard.neighbourValues.length > 0 ? ` (other model columns: ${exchange.numericGuard.neighbourValues.join(', ')})` : ''}
+                    {' - '}{exchange.numericGuard.action === 'regenerated' ? `regenerated with ${exchange.numericGuard.model}` : 'replaced with the missingSpec template'}
+                  </div>
+                )}
+                {exchange.languageRuleHits && exchange.languageRuleHits.length > 0 && (
+                  <div style={{ marginTop: '6px', color: '#555', fontSize: '12px' }}>
+                    ✏️ Language rules: {exchange.languageRuleHits.map(hit => hit.replacement === null ? `"${hit.phrase}" (not replaced)` : `"${hit.phrase}" → "${hit.replacement}"`).join(', ')}
+                  </div>
+                )}
+                {exchange.safetyCategory && (
+                  <div style={{ marginTop: '6px', color: '#c62828', fontSize: '13px' }}>
+                    🛑 Safety-critical ({exchange.safetyCategory}) - answered with the conservative response and an expert referral
+                  </div>
+                )}
+                {exchange.lowConfidence && (
+                  <div style={{ marginTop: '6px', color: '#b26a00', fontSize: '13px' }}>
+                    ⚠️ Low confidence - the answer cites neither the product page nor the datasheet
+                  </div>
+                )}
+                {exchange.feedback && (
+                  <div style={{ marginTop: '6px', fontSize: '13px' }}>
+                    Customer rated {exchange.feedback.rating === 'up' ? '👍' : '👎'}{exchange.feedback.comment ? `: "${exchange.feedback.comment}"` : ''}
+                  </div>
+                )}
+                {exchange.flagged && (
+                  <div style={{ marginTop: '6px', color: '#c62828', fontSize: '13px' }}>
+                    🚩 Flagged {exchange.flaggedAt?.substring(0, 10)}{exchange.flagNote ? `: ${exchange.flagNote}` : ''}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <h3>Flag this answer</h3>
+            <textarea
+              placeholder="What was wrong? (e.g. quoted the 24V model's current for the 48V model)"
+              value={flagNote}
+              onChange={e => setFlagNote(e.target.value)}
+              rows={3}
+              style={{ width: '100%', padding: '8px', border: '1px solid #ccc', borderRadius: '4px' }}
+            />
+            <div style={{ marginTop: '10px' }}>
+              <button onClick={() => setFlag(selected, true)} style={{ background: '#c62828', color: 'white', border: 'none', padding: '8px 16px', borderRadius: '4px', cursor: 'pointer', marginRight: '10px' }}>
+                {selected.flagged ? 'Update flag' : 'Flag as wrong'}
+              </button>
+              {selected.flagged && (
+                <button onClick={() => setFlag(selected, false)} style={{ padding: '8px 16px', borderRadius: '4px', cursor: 'pointer' }}>
+                  Clear flag
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import {
+  DatasheetCacheStats,
+  DatasheetWarmResult,
+  getDatasheetCacheStats,
+  invalidateDatasheet,
+  warmDatasheet
+} from '../../../lib/datasheet';
+
+interface DatasheetCacheResponse {
+  stats?: DatasheetCacheStats;
+  results?: DatasheetWarmResult[];
+  invalidated?: boolean;
+  error?: string;
+}
+
+const MAX_WARM_BATCH = 25; // Keep each request well inside the serverless timeout
+
+// GET    -> cache stats (entries, hit rate)
+// POST   -> { urls: string[], force?: boolean } pre-warm datasheets
+// DELETE -> ?url=... invalidate one datasheet (e.g. after a manufacturer revision)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DatasheetCacheResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ stats: await getDatasheetCacheStats() });
+    }
+
+    if (req.method === 'POST') {
+      const { urls, force } = req.body || {};
+      if (!Array.isArray(urls) || urls.length === 0 || urls.some(url => typeof url !== 'string' || !/^https?:\/\//.test(url))) {
+        return res.status(400).json({ error: 'Expected a non-empty "urls" array of http(s) datasheet URLs' });
+      }
+      if (urls.length > MAX_WARM_BATCH) {
+        return res.status(400).json({ error: `At most ${MAX_WARM_BATCH} URLs per request` });
+      }
+
+      // Sequential on purpose - avoids hammering the manufacturer's site
+      const results: DatasheetWarmResult[] = [];
+      for (const url of urls) {
+        const result = await warmDatasheet(url, force === true);
+        console.log('Datasheet warm:', result.status, url);
+        results.push(result);
+      }
+      return res.status(200).json({ results });
+    }
+
+    if (req.method === 'DELETE') {
+      const url = req.query.url?.toString();
+      if (!url) {
+        return res.status(400).json({ error: 'Missing "url" query parameter' });
+      }
+      const invalidated = await invalidateDatasheet(url);
+      console.log('Datasheet invalidated:', url, invalidated);
+      return res.status(200).json({ invalidated });
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Datasheet cache admin error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
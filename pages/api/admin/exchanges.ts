@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { ExchangeRecord, flagExchange, isValidExchangeId, searchExchanges } from '../../../lib/exchangeLog';
+
+interface ExchangesResponse {
+  exchanges?: ExchangeRecord[];
+  exchange?: ExchangeRecord;
+  error?: string;
+}
+
+// GET   -> ?sku=&from=YYYY-MM-DD&to=YYYY-MM-DD&conversationId=&flagged=1&lowConfidence=1 search logged exchanges
+// PATCH -> { id, flagged, note? } flag (or unflag) a wrong answer
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExchangesResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      const exchanges = await searchExchanges({
+        sku: req.query.sku?.toString(),
+        conversationId: req.query.conversationId?.toString(),
+        from: req.query.from?.toString(),
+        to: req.query.to?.toString(),
+        flaggedOnly: req.query.flagged === '1' || req.query.flagged === 'true',
+        lowConfidenceOnly: req.query.lowConfidence === '1' || req.query.lowConfidence === 'true'
+      });
+      return res.status(200).json({ exchanges });
+    }
+
+    if (req.method === 'PATCH') {
+      const { id, flagged, note } = req.body || {};
+      if (!isValidExchangeId(id) || typeof flagged !== 'boolean') {
+        return res.status(400).json({ error: 'Expected { id, flagged: boolean, note?: string }' });
+      }
+
+      const exchange = await flagExchange(id, flagged, typeof note === 'string' ? note : undefined);
+      if (!exchange) {
+        return res.status(404).json({ error: 'Exchange not found' });
+      }
+      return res.status(200).json({ exchange });
+    }
+
+    res.setHeader('Allow', 'GET, PATCH');
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Exchange admin error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
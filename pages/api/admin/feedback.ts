@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { SkuFeedbackSummary, getFeedbackBySku } from '../../../lib/exchangeLog';
+
+interface FeedbackSummaryResponse {
+  skus?: SkuFeedbackSummary[];
+  error?: string;
+}
+
+// GET -> ?sku=&from=YYYY-MM-DD&to=YYYY-MM-DD per-SKU thumbs up/down totals, worst first
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeedbackSummaryResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const skus = await getFeedbackBySku({
+      sku: req.query.sku?.toString(),
+      from: req.query.from?.toString(),
+      to: req.query.to?.toString()
+    });
+    return res.status(200).json({ skus });
+  } catch (error) {
+    console.error('Feedback summary error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
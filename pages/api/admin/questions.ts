@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { QuestionReport, getQuestionReport } from '../../../lib/analyticsEvents';
+
+interface QuestionsResponse {
+  report?: QuestionReport;
+  error?: string;
+}
+
+// GET -> ?from=YYYY-MM-DD&to=YYYY-MM-DD questions per product and category, with what the product page couldn't answer
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<QuestionsResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const report = await getQuestionReport({
+      from: req.query.from?.toString(),
+      to: req.query.to?.toString()
+    });
+    return res.status(200).json({ report });
+  } catch (error) {
+    console.error('Question report error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
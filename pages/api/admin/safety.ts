@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { SafetyEvent, searchSafetyEvents } from '../../../lib/safetyLog';
+
+interface SafetyResponse {
+  events?: SafetyEvent[];
+  error?: string;
+}
+
+// GET -> ?category=&from=YYYY-MM-DD&to=YYYY-MM-DD safety-critical questions escalated to an expert
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SafetyResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const events = await searchSafetyEvents({
+      category: req.query.category?.toString(),
+      from: req.query.from?.toString(),
+      to: req.query.to?.toString()
+    });
+    return res.status(200).json({ events });
+  } catch (error) {
+    console.error('Safety log error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { SpendSummary, getSpendSummary } from '../../../lib/exchangeLog';
+
+interface SpendResponse {
+  spend?: SpendSummary;
+  error?: string;
+}
+
+// GET -> ?sku=&from=YYYY-MM-DD&to=YYYY-MM-DD daily estimated spend by model and routing rule counts
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SpendResponse>
+) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const spend = await getSpendSummary({
+      sku: req.query.sku?.toString(),
+      from: req.query.from?.toString(),
+      to: req.query.to?.toString()
+    });
+    return res.status(200).json({ spend });
+  } catch (error) {
+    console.error('Spend summary error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -1,43 +1,72 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
-
-// Dynamic import for PDF processing to handle serverless environment
-let pdfParse: any = null;
-try {
-  pdfParse = require('pdf-parse');
-} catch (error) {
-  console.log('PDF processing not available in this environment:', error instanceof Error ? error.message : String(error));
-}
-
-// Enhanced caching system for cost optimization
-const pdfCache = new Map<string, { content: string; timestamp: number; lastUsed: number }>();
+import {
+  ChatTurn,
+  applyHistoryBudget,
+  createConversationId,
+  getConversationCount,
+  getConversationHistory,
+  isValidConversationId,
+  sanitizeTurns,
+  saveConversationHistory
+} from '../../lib/conversationMemory';
+import { getStableStreamingText, sendEvent, startEventStream, wantsEventStream } from '../../lib/streaming';
+import { DatasheetTable, ModelSpecs, extractModelNumber, formatModelSpecs, getModelSpecs } from '../../lib/datasheetParser';
+import { fetchPDFContent, getDatasheetCacheStats } from '../../lib/datasheet';
+import { answerFromModelFacts, decodeModelNumber, formatModelFacts } from '../../lib/modelDecoder';
+import { AskIntent, classifyIntent } from '../../lib/intentClassifier';
+import { enforceRateLimit } from '../../lib/rateLimit';
+import { DatasheetStatus, ModelUsage, TokenUsage, logExchange, searchExchanges } from '../../lib/exchangeLog';
+import { ApiErrorCode } from '../../lib/apiErrors';
+import { applyCors } from '../../lib/cors';
+import { requireWidgetToken } from '../../lib/widgetToken';
+import { StructuredAnswer, buildStructuredAnswer } from '../../lib/structuredAnswer';
+import { Citation, findCitations, partNumberCitation } from '../../lib/citations';
+import { NumericGuardOutcome, NumericGuardSources, checkNumericValues } from '../../lib/numericGuard';
+import { findUnknownSkus, getProductUrl, getSkuCatalog } from '../../lib/skuCatalog';
+import { loadAskEdContentConfig } from '../../lib/askEdConfig';
+import { LanguageRuleHit, applyLanguageRules } from '../../lib/languageRules';
+import { estimateCost, getModelRoutingRules, resolveModelRoute } from '../../lib/modelRouting';
+import { LlmMessage, getLlmProviderChain } from '../../lib/llmProvider';
+import { classifySafety, formatSafetyAnswer } from '../../lib/safetyClassifier';
+import { logSafetyEvent } from '../../lib/safetyLog';
+import { ProductContext, getProductCatalogProvider, urlKeyFromProductUrl } from '../../lib/productCatalog';
+import { QuoteRequestPrefill, extractQuantity } from '../../lib/rfq';
+
+// Enhanced caching system for cost optimization (datasheets are cached in lib/datasheet,
+// catalog product context by SKU or URL key here)
 const productPageCache = new Map<string, { content: string; timestamp: number; lastUsed: number }>();
 const CACHE_DURATION = 2592000000; // 30 days in milliseconds
 const MAX_CACHE_SIZE = 1000; // Maximum number of cached items
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// OpenAI, an OpenAI-compatible server or the mock, with fallback (LLM_PROVIDERS)
+const llm = getLlmProviderChain();
 
 // Add debug logging for API key
 console.log('OPENAI_API_KEY present:', !!process.env.OPENAI_API_KEY);
 console.log('OPENAI_API_KEY length:', process.env.OPENAI_API_KEY?.length || 0);
 
-// Rate limiting storage (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number; dailyCount: number; dailyResetTime: number }>();
-
 interface AskRequest {
   question: string;
-  productSpecs: string;
-  productTitle: string;
+  sku?: string; // Resolved server-side from the product catalog
+  productUrl?: string; // Used when no SKU is sent - the URL key identifies the product
+  productSpecs?: string; // Scraped by the widget - fallback when the catalog has no specs
+  productTitle?: string;
   datasheetUrl?: string;
   similarProducts?: string;
   accessories?: string;
   userIP?: string;
+  conversationId?: string;
+  history?: ChatTurn[];
+  responseFormat?: 'html' | 'structured';
 }
 
 interface AskResponse {
-  answer?: string;
+  answer?: string; // Legacy pre-rendered HTML
+  structured?: StructuredAnswer; // Only when responseFormat is 'structured'
+  citations?: Citation[];
+  lowConfidence?: boolean; // Spec answer that cites neither the product page nor the datasheet
+  configVersion?: string; // config/ask-ed.json version that produced the answer
+  languageRuleHits?: LanguageRuleHit[]; // languageRules phrases rewritten in (or flagged on) the answer
   error?: string;
   model?: string;
   version?: string;
@@ -45,38 +74,35 @@ interface AskResponse {
   productPageCacheSize?: number;
   maxTokens?: number;
   debug?: string;
+  conversationId?: string;
+  conversationCount?: number;
+  intent?: AskIntent;
+  intentConfidence?: number;
+  safety?: { category: string; label: string }; // Safety-critical question escalated to an expert
+  quoteRequest?: QuoteRequestPrefill; // Pricing questions - prefills the widget's inline RFQ form
+  retryAfter?: number;
+  exchangeId?: string;
+  code?: ApiErrorCode;
 }
 
+// Persona, templates and rules live in versioned config (config/ask-ed.json)
+const askEdContent = loadAskEdContentConfig();
+
 // ASK ED CONFIGURATION - Updated for GPT-4o-mini
-const ASK_ED_CONFIG = {
+// Exported for the offline eval harness (scripts/eval-ask-ed.js)
+export const ASK_ED_CONFIG = {
   // Core behavior settings
   maxTokens: 300,
   temperature: 0.1,
   maxResponseWords: 200,
   maxProductPageTokens: 2000,
   maxDatasheetTokens: 8000,
+  maxHistoryTokens: 1500,
+  maxHistoryTurns: 10,
+  intentConfidenceThreshold: 0.8, // Minimum confidence to answer with a canned template
   
-  // LED Driver Terminology Guide - WHERE TO FIND SPECIFIC INFO
-  ledDriverTerminology: {
-    'dimming': {
-      primarySource: 'Product page Specifications section - look for "Dimming" field',
-      values: ['Non-Dimming', '3-in-1 Dimming', '0-10V Dimming', 'DALI', 'PWM'],
-      secondarySource: 'If dimming exists, check datasheet for dimming curves and details'
-    },
-    'constant current range': {
-      primarySource: 'Datasheet - look for "Constant Current Region", "Constant Current Voltage Range", or "CC Region" section',
-      note: 'Check the appropriate model row/column in the datasheet table - often expressed as voltage range (e.g., 18-36V)',
-      aliases: ['constant current voltage range', 'cc region', 'led voltage range', 'forward voltage range']
-    },
-    'IP rating': {
-      primarySource: 'Product page Specifications - look for "IP Rating" or "Ingress Protection"',
-      secondarySource: 'Datasheet for detailed environmental specifications'
-    },
-    'efficiency': {
-      primarySource: 'Product page Specifications - may show typical efficiency %',
-      secondarySource: 'Datasheet for efficiency curves at different loads'
-    }
-  },
+  // LED Driver Terminology Guide - WHERE TO FIND SPECIFIC INFO (config/ask-ed.json)
+  ledDriverTerminology: askEdContent.ledDriverTerminology,
   
   // LED Driver Model Suffix Meanings - CRITICAL FOR ADJUSTABLE FEATURES
   ledDriverSuffixes: {
@@ -110,214 +136,33 @@ const ASK_ED_CONFIG = {
     }
   },
   
-  // Response format templates
-  templates: {
-    missingSpec: "I don't have that information in my database. Please check the [datasheet]([DATASHEET_URL]) for complete details or contact a Bravo Power Expert via web chat or call 408-733-9090.",
-    similarProducts: "Check the 'Similar Products' section on this product page for Bravo alternatives.",
-    accessories: "Check the 'Accessories' section on this product page for compatible connectors and add-ons. If you don't see what you need, contact our Bravo Power Experts via web chat or call 408-733-9090.",
-    pricing: "For pricing information, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form).",
-    volumePricing: "For volume pricing, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form).",
-    stockInfo: "For current stock status and availability, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form).",
-    expertConsultation: "Consult our Bravo Power Experts via web chat or call 408-733-9090 for detailed guidance."
-  },
-  
-  // Language standardization rules
-  languageRules: {
-    forbiddenPhrases: [
-      'provided product specifications',
-      'detailed datasheet', 
-      'product specifications or detailed datasheet',
-      'not explicitly provided',
-      'doesn\'t explicitly provide',
-      'not explicitly stated'
-    ],
-    replacements: {
-      'my database': ['provided product specifications', 'detailed datasheet', 'product specifications or detailed datasheet'],
-      'I don\'t see this information': ['not explicitly provided', 'doesn\'t explicitly provide', 'not explicitly stated']
-    }
+  // Series whose part numbers use the blank/A/B/AB suffix encoding above
+  suffixEncodedSeries: ['HLG', 'ELG'],
+  
+  // Intents answered directly with a template (no OpenAI call) when confidently detected
+  intentTemplates: {
+    pricing: 'pricing',
+    volumePricing: 'volumePricing',
+    stockInfo: 'stockInfo',
+    accessories: 'accessories',
+    similarProducts: 'similarProducts'
+  } as { [intent: string]: 'pricing' | 'volumePricing' | 'stockInfo' | 'accessories' | 'similarProducts' },
+  
+  // Post-generation check that every number-with-unit in an answer appears in the product data.
+  // Failing answers are regenerated once with regenerateModel (null skips the retry), then
+  // replaced with the missingSpec template if they still quote unverified values.
+  numericGuard: {
+    enabled: true,
+    regenerateModel: 'gpt-4o' as string | null,
+    correctionPrompt: 'Your previous answer quoted values that are not in the product specifications or the datasheet data for this exact model: [VALUES]. Answer the question again using only values given for this model. If the value is not given, say you don\'t have that information.'
   },
   
-  // Critical accuracy requirements  
-  accuracyRules: [
-    'ONLY provide information for the EXACT product model being viewed - match model number precisely',
-    'When reading tables, use ONLY the row for the current model (e.g., HLG-120H-48A row for HLG-120H-48A)',
-    'NEVER mix information from different model variants in the same table',
-    'Never mix information from different products or use memory/training data', 
-    'Verify product model/part number matches question context exactly',
-    'For LED drivers: ALWAYS check "Dimming" field on product page FIRST - if it says "Non-Dimming" the unit has NO dimming',
-    'For LED drivers/power supplies: ALWAYS analyze model suffix to determine adjustable features - A=adjustable, B=dimming, AB=both, blank=fixed',
-    'When asked about adjustability: Check model suffix FIRST, then confirm with datasheet specs',
-    'Be explicit about suffix meanings: "The A suffix indicates adjustable output through built-in potentiometer"',
-    'NEVER include raw URLs in responses - all URLs must be hyperlinked to descriptive text',
-    'NEVER suggest non-Bravo products, competitors, or external solutions',
-    'ONLY recommend Bravo Electro products and services - you are a loyal Bravo employee'
-  ]
+  // Response templates, language rules and accuracy rules (config/ask-ed.json)
+  templates: askEdContent.templates,
+  languageRules: askEdContent.languageRules,
+  accuracyRules: askEdContent.accuracyRules
 };
 
-const ASK_ED_SYSTEM_PROMPT = `You are Ask ED, a specialized product Q&A assistant for Bravo Electro (www.bravoelectro.com) powered by GPT-4o-mini.
-
-CORE PRINCIPLES:
-1. Use the product specifications provided as your primary source of truth
-2. Apply logical understanding to interpret customer questions naturally
-3. For dimming questions: Check the "Dimming" field in specs - if it says "Non-Dimming", this product does NOT have dimming capability
-4. For accessory/connector questions: If an Accessories section exists, refer customers to it
-5. Only recommend Bravo Electro products and services
-6. Be helpful and understand the intent behind questions, not just literal words
-
-INFORMATION SOURCES (Priority Order):
-1. PRIMARY: Product page specifications and sections (Similar Products, Accessories)  
-2. SECONDARY: Linked datasheet (when product page lacks specific info)
-3. FALLBACK: Direct to Bravo experts for missing information
-
-SECTION AVAILABILITY CHECK:
-- CRITICAL: Only suggest Similar Products section if similarProducts data is provided and contains actual product information
-- CRITICAL: Only suggest Accessories section if accessories data is provided and contains actual product information
-- NEVER suggest sections that don't exist on the current product page
-- If no similarProducts or accessories data provided, do NOT mention these sections
-
-UNDERSTANDING CUSTOMER INTENT:
-- Dimming questions include: "can it dim", "is it dimmable", "does it have dimming", "dimming capability", "brightness control", "0-10V", "1-10V"
-- CRITICAL for dimming: When asked about specific dimming method, check if product HAS that method
-- 3-in-1 dimming typically includes: (0-10V OR 1-10V) + PWM + resistance - check which voltage it uses
-- If question is "Does it have [specific dimming]?" → Look for that specific capability and answer YES/NO accordingly
-- Adjustable output questions include: "adjustable", "variable", "can I adjust", "potentiometer", "trim pot", "voltage adjustment", "current adjustment"
-- Constant current questions include: "constant current region", "constant current voltage range", "cc region", "cc voltage range", "led voltage range"
-- Accessory questions include: "connectors", "cables", "plugs", "accessories", "what do I need to connect"
-- Alternative questions include: "other options", "similar products", "alternatives", "cross reference"
-- Technical specs include: "voltage adjustment", "constant current", "output range", "efficiency", "power factor"
-- PRICING QUESTIONS: "price", "cost", "how much", "volume pricing", "bulk pricing", "quantity pricing", "better price", "discount"
-- STOCK QUESTIONS: "stock", "availability", "in stock", "inventory", "lead time", "shipping", "delivery", "when available"
-
-INTERPRETING SPECIFICATION TABLES - CRITICAL MODEL AND COLUMN MATCHING:
-- MOST IMPORTANT: You MUST match the EXACT model number being viewed (provided as "Product:")
-- Specification tables contain MULTIPLE rows for different model variants (e.g., HLG-120H-12A, HLG-120H-24A, HLG-120H-36A, HLG-120H-48A)
-- NEVER provide specs from a different model row - this is a critical error
-- Process for finding specs:
-  1. Identify the EXACT model number from "Product:" (e.g., HLG-120H-48A)
-  2. Find that EXACT model's row in the specification table
-  3. Identify the CORRECT COLUMN for the requested specification
-  4. Read the value from the INTERSECTION of the correct row AND column
-  5. VERIFY: Confirm you're reading the right column (not confusing similar columns)
-
-CRITICAL COLUMN DIFFERENTIATION:
-- "Constant Current Region" column: Shows the voltage range where constant current is maintained (e.g., "24~48V")
-- "Voltage ADJ. Range" column: Shows the adjustment range for output voltage via potentiometer (e.g., "43.2~52.8V")
-- "Current ADJ. Range" column: Shows the adjustment range for output current via potentiometer (e.g., "8.0~10.0A")
-- These are THREE DIFFERENT columns with DIFFERENT values
-- When asked for "voltage adjustment range" → Read "Voltage ADJ. Range" column ONLY
-- When asked for "current adjustment range" → Read "Current ADJ. Range" column ONLY
-- When asked for "constant current region/range" → Read "Constant Current Region" column ONLY
-- DO NOT confuse these columns - they contain different information
-- Example for HLG-120H-48A:
-  • Constant Current Region might be: "24~48V"
-  • Voltage ADJ. Range might be: "43.2~52.8V"
-  • Current ADJ. Range might be: "2.0~2.5A"
-  • These are DIFFERENT specifications from DIFFERENT columns
-
-RESPONSE GUIDELINES:
-- For constant current region: Look ONLY at "Constant Current Region" column, provide exact value (e.g., "The constant current region is 24-48V")
-- For voltage adjustment: Look ONLY at "Voltage ADJ. Range" column, provide exact value (e.g., "The voltage adjustment range is 43.2-52.8V")
-- For current adjustment: Look ONLY at "Current ADJ. Range" column, provide exact value (e.g., "The current adjustment range is 2.0-2.5A")
-- CRITICAL: These are DIFFERENT columns - never give constant current values when asked for adjustment range
-- For mounting holes: Provide product dimensions and refer to "Mechanical Specification" in the datasheet for mounting hole placement
-- For dimming questions: USE INTELLIGENCE to answer what was asked
-- If asked "Does it have 0-10V dimming?" and specs show "0-10V dimming" → Answer: "Yes, this model has 0-10V dimming"
-- If asked "Does it have 0-10V dimming?" and specs show "1-10V dimming" → Answer: "No, this model has 1-10V dimming, not 0-10V"
-- For 3-in-1 dimming: If it includes the asked method, say YES and explain all methods
-- Example: Asked about 0-10V, has "3-in-1 with 0-10V, PWM, resistance" → "Yes, this model has 0-10V dimming as part of its 3-in-1 dimming capability"
-- CRITICAL: Answer the actual question - if they ask about X and product has X, say YES
-- When you don't know: Say "I don't have that information in my database" and refer to datasheet or Bravo Power Experts via web chat or call 408-733-9090
-- NEVER say "not in product specifications" or "not in documentation" - always say "not in my database"
-- For technical specs: Always provide exact values from the correct column in the datasheet tables
-- For non-dimming products: "This is a non-dimming model" or "This model doesn't have dimming capability"
-- For accessories when section exists: "Check the Accessories section on this page for compatible options"
-- Always be helpful and conversational while staying accurate
-- NEVER include raw URLs in responses - all URLs must be hyperlinked to descriptive text
-- NEVER include raw HTML in responses - use markdown format for links [text](URL)
-- When recommending other part numbers, they will be automatically hyperlinked
-
-CRITICAL ACCURACY RULES:
-- ABSOLUTE PRIORITY: Verify product model/part number matches EXACTLY - no exceptions
-- When reading specification tables, ONLY use data from the row matching the current product model
-- NEVER provide specs from a different model variant (e.g., don't give HLG-120H-36A specs for HLG-120H-48A)
-- INTELLIGENT ANSWERING: Read the specification, understand what it says, then answer the actual question
-- If asked "Does it have X?" and the spec includes X, answer YES (don't say no just because it also has Y and Z)
-- For dimming: Products may have EITHER 0-10V OR 1-10V (not both), but 3-in-1 includes one of these plus PWM and resistance
-- Answer based on what the product ACTUALLY HAS, not what it doesn't have
-- Never provide specs from memory or other products  
-- For plugs/connectors: Only state what's explicitly mentioned in specs
-- Never assume features (international plugs, cable types, etc.) unless explicitly stated
-- For derating questions: State operating temp range, then refer to datasheet for curves
-- DC input vs output: Carefully distinguish - never mix input/output specifications
-- NEVER suggest non-Bravo products, competitors, or external solutions under ANY circumstances
-- For LED drivers: ALWAYS check "Dimming" field on product page FIRST - if it says "Non-Dimming" the unit has NO dimming
-- For connector/accessory questions: ALWAYS refer to Accessories section if available, otherwise Bravo experts
-- Read specifications LITERALLY - "Non-Dimming" means NO dimming capability
-
-PRICING AND STOCK INQUIRY HANDLING:
-- ALWAYS refer pricing questions to Bravo Team - NEVER provide actual prices, costs, or inventory levels
-- For pricing questions, respond with: "For pricing information, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form)."
-- For volume/bulk/quantity pricing, respond with: "For volume pricing, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form)."
-- For stock/availability questions, respond with: "For current stock status and availability, contact a Bravo Team member via web chat, call 408-733-9090, or fill out our [RFQ Form](https://www.bravoelectro.com/rfq-form)."
-- Keywords to watch for:
-  • Pricing: "price", "cost", "how much", "volume pricing", "bulk pricing", "quantity pricing", "better price", "discount"
-  • Stock: "stock", "availability", "in stock", "inventory", "lead time", "shipping", "delivery", "when available"
-
-LED DRIVER SUFFIX ANALYSIS - CRITICAL FOR ADJUSTABLE FEATURES:
-- ALWAYS analyze the model suffix (letters after the base model number) to determine adjustable features
-- Suffix meanings for LED drivers/power supplies:
-  • NO SUFFIX (blank): Fixed output current and voltage (not adjustable)
-  • "A" suffix: Output current AND voltage are ADJUSTABLE via built-in potentiometer (also changes IP rating to IP65)
-  • "B" suffix: Has 3-in-1 dimming function (1-10Vdc, PWM, resistance) but output is NOT adjustable
-  • "AB" suffix: BOTH adjustable output AND dimming functions (IP65 rating)
-- Examples: HLG-120H-12A = adjustable output, HLG-120H-12AB = adjustable + dimming, HLG-120H-12 = fixed output
-- When asked about adjustability: Check suffix FIRST, then confirm with datasheet specifications
-- Be explicit: "The 'A' suffix indicates this model has adjustable current and voltage output through a built-in potentiometer"
-
-PERSONALITY & LOYALTY:
-- Happy, polite, knowledgeable Bravo Electro salesman
-- ONLY recommend Bravo Electro products and services - you are Bravo's best employee
-- Never suggest competitors, other websites, distributors, or non-Bravo solutions
-- Use Similar Products/Accessories sections when available to suggest Bravo alternatives
-- Limit responses to 200 words, keep concise (2-4 sentences for simple questions)
-- For complex technical questions, end with: "Consult our Bravo Power Experts via web chat or call 408-733-9090 for detailed guidance."
-
-Replace [DATASHEET_URL] with actual datasheet URL. All URLs must be hyperlinked with descriptive text.`;
-
-function isRateLimited(userIP: string): boolean {
-  const now = Date.now();
-  const userLimit = rateLimitStore.get(userIP);
-
-  if (!userLimit) {
-    rateLimitStore.set(userIP, {
-      count: 1,
-      resetTime: now + 60000, // 1 minute
-      dailyCount: 1,
-      dailyResetTime: now + 86400000 // 24 hours
-    });
-    return false;
-  }
-
-  // Check daily limit
-  if (now > userLimit.dailyResetTime) {
-    userLimit.dailyCount = 1;
-    userLimit.dailyResetTime = now + 86400000;
-  } else if (userLimit.dailyCount >= 50) {
-    return true; // Daily limit exceeded
-  }
-
-  // Check per-minute limit
-  if (now > userLimit.resetTime) {
-    userLimit.count = 1;
-    userLimit.resetTime = now + 60000;
-  } else if (userLimit.count >= 5) {
-    return true; // Per-minute limit exceeded
-  }
-
-  userLimit.count++;
-  userLimit.dailyCount++;
-  return false;
-}
 
 function validateInput(question: string): boolean {
   // Check for suspicious patterns
@@ -370,15 +215,78 @@ function setCachedContent(cache: Map<string, { content: string; timestamp: numbe
   });
 }
 
+// Prior turns of a conversation from the exchange log - what Ed actually answered, shared across
+// instances. Used after a cold start instead of trusting answers replayed by the client.
+async function getLoggedTurns(conversationId: string, productTitle: string): Promise<ChatTurn[]> {
+  try {
+    const exchanges = await searchExchanges({ conversationId, limit: ASK_ED_CONFIG.maxHistoryTurns });
+    const turns: ChatTurn[] = [];
+    exchanges
+      .filter(exchange => exchange.productTitle === productTitle)
+      .reverse()
+      .forEach(exchange => {
+        turns.push({ role: 'user', content: exchange.question });
+        turns.push({ role: 'assistant', content: exchange.answer.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').trim() });
+      });
+    return sanitizeTurns(turns);
+  } catch (error) {
+    console.error('Exchange log history error:', error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+// Catalog product context by SKU (or URL key), cached in productPageCache; misses and provider errors return null
+async function resolveProductContext(sku?: string, productUrl?: string): Promise<ProductContext | null> {
+  const provider = getProductCatalogProvider();
+  const urlKey = !sku && productUrl ? urlKeyFromProductUrl(productUrl) : null;
+  if (!provider || (!sku && !urlKey)) return null;
+
+  const cacheKey = sku ? `sku:${sku.trim().toUpperCase()}` : `url:${urlKey!.toLowerCase()}`;
+  const cached = getCachedContent(productPageCache, cacheKey);
+  if (cached) {
+    console.log('Using cached product context for:', cacheKey);
+    return JSON.parse(cached);
+  }
+
+  try {
+    const product = await provider.lookup(sku ? { sku } : { urlKey: urlKey! });
+    if (product) setCachedContent(productPageCache, cacheKey, JSON.stringify(product));
+    return product;
+  } catch (error) {
+    console.error('Product catalog error:', provider.name, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
 function createPartNumberURL(partNumber: string): string {
+  // Real URL key from the SKU catalog when the part is listed there
+  const catalogEntry = getSkuCatalog().lookup(partNumber);
+  if (catalogEntry) return getProductUrl(catalogEntry);
+
   // Convert part number to URL format: replace dots with dashes and make lowercase
   const urlSlug = partNumber.replace(/\./g, '-').toLowerCase();
   return `https://www.bravoelectro.com/${urlSlug}.html`;
 }
 
-function processAskEdResponse(answer: string, datasheetUrl?: string, productTitle?: string): string {
+function addTokenUsage(total: TokenUsage | null, usage: TokenUsage | null): TokenUsage | null {
+  if (!total || !usage) return total || usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+}
+
+// Templates link [datasheet]([DATASHEET_URL]) - without a datasheet the link becomes plain text
+function fillDatasheetUrl(template: string, datasheetUrl?: string): string {
+  return datasheetUrl
+    ? template.replace(/\[DATASHEET_URL\]/g, datasheetUrl)
+    : template.replace(/\[datasheet\]\(\[DATASHEET_URL\]\)/gi, 'datasheet');
+}
+
+function processAskEdResponse(answer: string, datasheetUrl?: string, productTitle?: string, quiet: boolean = false): string {
   // CRITICAL: Clean up AI's markdown hyperlinking mistakes
-  console.log('Processing response - Original:', answer.substring(0, 200));
+  if (!quiet) console.log('Processing response - Original:', answer.substring(0, 200));
   
   // Step 0: Remove any stray HTML tags that AI might have included (safety check)
   answer = answer.replace(/<a href=['"][^'"]*['"][^>]*>/gi, '');
@@ -454,8 +362,7 @@ function processAskEdResponse(answer: string, datasheetUrl?: string, productTitl
     const modelMatch = productTitle.match(/^([A-Z0-9\-\.]+)/i);
     if (modelMatch) {
       const modelNumber = modelMatch[1];
-      const urlSlug = modelNumber.toLowerCase().replace(/\./g, '-');
-      const productUrl = `https://www.bravoelectro.com/${urlSlug}.html`;
+      const productUrl = createPartNumberURL(modelNumber);
       
       // Match markdown format for this specific product
       const mdRegex = new RegExp(`\\[${modelNumber.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\([^)]+\\)`, 'gi');
@@ -491,8 +398,7 @@ function processAskEdResponse(answer: string, datasheetUrl?: string, productTitl
     const modelMatch = productTitle.match(/^([A-Z0-9\-\.]+)/i);
     if (modelMatch) {
       const modelNumber = modelMatch[1];
-      const urlSlug = modelNumber.toLowerCase().replace(/\./g, '-');
-      const productUrl = `https://www.bravoelectro.com/${urlSlug}.html`;
+      const productUrl = createPartNumberURL(modelNumber);
       
       const modelRegex = new RegExp(`\\b${modelNumber.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
       processedAnswer = processedAnswer.replace(modelRegex, (match) => {
@@ -504,18 +410,18 @@ function processAskEdResponse(answer: string, datasheetUrl?: string, productTitl
   }
   
   // Step 5: Auto-hyperlink part numbers mentioned in recommendations
-  // Match part number patterns (letters, numbers, dashes, dots) but exclude already hyperlinked ones
-  processedAnswer = processedAnswer.replace(/\b([A-Z]{2,}[-\w\.]*[A-Z0-9])\b(?![^<]*>)/gi, (match) => {
+  // Only SKUs in the catalog are linked - IP67, UL8750 or invented part numbers stay plain text
+  const skuCatalog = getSkuCatalog();
+  processedAnswer = processedAnswer.replace(/\b([A-Z]{2,}[-\w\.]*[A-Z0-9])\b(?![^<]*>)(?!<\/a>)/gi, (match) => {
     // Skip if it's already the current product or already hyperlinked
-    if (match === productTitle?.match(/^([A-Z0-9\-\.]+)/i)?.[1] || 
-        processedAnswer.includes(`<a[^>]*>${match}</a>`)) {
+    const alreadyLinked = new RegExp(`<a[^>]*>${match.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}</a>`, 'i').test(processedAnswer);
+    if (match === productTitle?.match(/^([A-Z0-9\-\.]+)/i)?.[1] || alreadyLinked) {
       return match;
     }
     
-    // Check if it looks like a valid part number (has letters and numbers)
-    if (/[A-Z]/.test(match) && /[0-9]/.test(match)) {
-      const url = createPartNumberURL(match);
-      return `<a href="${url}" target="_blank" style="color: white; text-decoration: underline;">${match}</a>`;
+    const catalogEntry = skuCatalog.lookup(match);
+    if (catalogEntry) {
+      return `<a href="${getProductUrl(catalogEntry)}" target="_blank" style="color: white; text-decoration: underline;">${match}</a>`;
     }
     
     return match;
@@ -531,231 +437,62 @@ function processAskEdResponse(answer: string, datasheetUrl?: string, productTitl
   // Remove any standalone "link" that got hyperlinked
   processedAnswer = processedAnswer.replace(/<a[^>]*>link<\/a>/gi, 'link');
   
-  console.log('Processing response - Final:', processedAnswer.substring(0, 200));
+  if (!quiet) console.log('Processing response - Final:', processedAnswer.substring(0, 200));
   
   return processedAnswer.trim();
 }
 
 
-async function fetchPDFContent(url: string): Promise<string> {
-  // Check cache first using new cache system
-  const cachedContent = getCachedContent(pdfCache, url);
-  if (cachedContent) {
-    console.log('Using cached PDF content for:', url);
-    return cachedContent;
-  }
-  
-  // Skip PDF processing if library not available
-  if (!pdfParse) {
-    console.log('PDF processing unavailable, skipping:', url);
-    return '';
-  }
-  
-  try {
-    console.log('Attempting to fetch PDF:', url);
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PDF: ${response.statusText}`);
-    }
-    
-    const buffer = await response.arrayBuffer();
-    const data = await pdfParse(Buffer.from(buffer));
-    
-    console.log('PDF processing successful, extracted text length:', data.text.length);
-    console.log('PDF total pages:', data.numpages);
-    
-    // Extract full PDF content
-    let pdfContent = data.text;
-    
-    // Enhanced datasheet extraction - capturing full specification tables and embedded data
-    const sections = {
-      // CRITICAL: Extract full specification tables where constant current info lives
-      specificationTable: extractSection(pdfContent, [
-        'constant current region', 'voltage adj. range', 'voltage adj range', 'adj. range',
-        'output voltage', 'output current', 'rated power', 'rated current',
-        'model', 'dc output', 'output', 'specification', 'electrical characteristics',
-        'electrical specification', 'specifications', 'electrical spec'
-      ], 10000), // Maximum extraction to capture full tables with all columns
-      
-      // Model-specific tables and ordering info
-      modelTable: extractSection(pdfContent, ['model no', 'part number', 'ordering information', 'model table', 'model list'], 4000),
-      
-      // Voltage/Current specifications - where constant current info is embedded
-      outputSpecs: extractSection(pdfContent, [
-        'constant current region', 'voltage adj. range', 'voltage adj range', 'adj. range',
-        'voltage range', 'current range', 'output voltage range', 'output current range',
-        'constant current', 'cc region', 'constant voltage', 'cv region',
-        'voltage', 'current', 'vdc', 'adc', 'output', 'v adj', 'i adj'
-      ], 6000),
-      
-      // Adjustment ranges - CRITICAL for A suffix models
-      voltageAdjust: extractSection(pdfContent, ['voltage adj. range', 'voltage adjustment', 'vadj', 'output voltage adjustment', 'potentiometer', 'trim pot', 'adjustment range', 'voltage adj range'], 3000),
-      currentAdjust: extractSection(pdfContent, ['current adj. range', 'current adjustment', 'iadj', 'output current adjustment', 'current adj range'], 2000),
-      
-      // Mechanical specifications - for mounting/installation questions
-      mechanical: extractSection(pdfContent, ['mechanical specification', 'mechanical drawing', 'mounting', 'dimensions', 'hole diameter', 'hole spacing', 'mounting holes', 'mechanical dimension'], 2000),
-      
-      // Model suffix information
-      suffixInfo: extractSection(pdfContent, ['model suffix', 'suffix code', 'model code', 'ordering information', 'model designation'], 1500),
-      
-      // Other specs
-      dimming: extractSection(pdfContent, ['dimming', 'dim function', 'dimming operation'], 1500),
-      features: extractSection(pdfContent, ['features', 'key features'], 1000)
-    };
-    
-    // Combine ALL content - prioritize technical specs
-    let combinedContent = `COMPLETE DATASHEET CONTENT:
-
-`;
-    
-    // HIGHEST PRIORITY: Full specification tables (where constant current info lives)
-    if (sections.specificationTable) {
-      combinedContent += `SPECIFICATION TABLE:
-${sections.specificationTable}
-
-`;
-    }
-    
-    // Output specifications including voltage/current ranges
-    if (sections.outputSpecs) {
-      combinedContent += `OUTPUT SPECIFICATIONS:
-${sections.outputSpecs}
-
-`;
-    }
-    
-    if (sections.voltageAdjust) {
-      combinedContent += `VOLTAGE ADJUSTMENT:
-${sections.voltageAdjust}
-
-`;
-    }
-    
-    if (sections.currentAdjust) {
-      combinedContent += `CURRENT ADJUSTMENT:
-${sections.currentAdjust}
-
-`;
-    }
-    
-    if (sections.mechanical) {
-      combinedContent += `MECHANICAL SPECIFICATIONS:
-${sections.mechanical}
-
-`;
-    }
-    
-    if (sections.suffixInfo) {
-      combinedContent += `MODEL SUFFIX INFORMATION:
-${sections.suffixInfo}
-
-`;
-    }
-    
-    if (sections.modelTable) {
-      combinedContent += `MODEL/SPECIFICATIONS TABLE:
-${sections.modelTable}
-
-`;
-    }
-    
-    if (sections.dimming) {
-      combinedContent += `DIMMING INFORMATION:
-${sections.dimming}
-
-`;
-    }
-    
-    // If critical sections are missing, include more raw content
-    if (!sections.specificationTable || !sections.outputSpecs) {
-      combinedContent += `ADDITIONAL DATASHEET TEXT:
-${pdfContent.substring(0, 6000)}
-`;
-    }
-    
-    // Maximum extraction for complete specification tables
-    const finalContent = combinedContent.substring(0, 8000); // ~2000 tokens for complete tables
-    setCachedContent(pdfCache, url, finalContent);
-    
-    console.log('PDF extraction complete. Sections found:', {
-      specificationTable: !!sections.specificationTable,
-      outputSpecs: !!sections.outputSpecs,
-      voltageAdjust: !!sections.voltageAdjust,
-      currentAdjust: !!sections.currentAdjust,
-      mechanical: !!sections.mechanical,
-      modelTable: !!sections.modelTable
-    });
-    
-    return finalContent;
-  } catch (error) {
-    console.error('PDF fetch error:', error);
-    return '';
-  }
-}
-
-function extractSection(text: string, keywords: string[], maxLength: number = 2000): string {
-  const lowerText = text.toLowerCase();
-  for (const keyword of keywords) {
-    const index = lowerText.indexOf(keyword.toLowerCase());
-    if (index !== -1) {
-      // Extract section with specified length
-      return text.substring(index, Math.min(index + maxLength, text.length));
-    }
-  }
-  return '';
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AskResponse>
 ) {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-    res.status(200).end();
-    return;
-  }
-
-  // Set CORS headers for actual requests
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS - only ALLOWED_ORIGINS (or any origin when unset) may call the API
+  if (!applyCors(req, res, {
+    methods: 'POST, OPTIONS',
+    exposeHeaders: 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After'
+  })) return;
 
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { question, productSpecs, productTitle, datasheetUrl, similarProducts, accessories }: AskRequest = req.body;
+  // Signed widget token - proves the call comes from a widget loaded on an allowed page
+  if (!requireWidgetToken(req, res)) return;
+
+  const { question, sku, productUrl, history }: AskRequest = req.body;
+  const clientProduct: AskRequest = req.body; // Scraped by the widget - fallback for the catalog
+  const conversationId = isValidConversationId(req.body.conversationId) ? req.body.conversationId : createConversationId();
   
   // Enhanced logging for debugging
   console.log('=== ASK ED REQUEST ===');
-  console.log('Product:', productTitle);
+  console.log('Product:', clientProduct.productTitle, 'SKU:', sku || '-');
   console.log('Question:', question);
-  console.log('Has Specs:', !!productSpecs);
-  console.log('Specs include dimming:', productSpecs?.toLowerCase().includes('dimming'));
-  console.log('Is Non-Dimming:', productSpecs?.toLowerCase().includes('non-dimming'));
-  console.log('Has Accessories:', !!accessories);
+  console.log('Has Specs:', !!clientProduct.productSpecs);
+  console.log('Has Accessories:', !!clientProduct.accessories);
   
   // Debug endpoint to check model
   if (question === "DEBUG_MODEL_CHECK") {
+    const routingRules = getModelRoutingRules();
+    const routedModels = routingRules.map(rule => rule.model).filter((model, index, models) => models.indexOf(model) === index);
     return res.status(200).json({ 
-      answer: "Currently using hybrid model: gpt-4o for technical specs, gpt-4o-mini for general questions. Deployment successful!", 
-      model: "hybrid: gpt-4o + gpt-4o-mini",
+      answer: `Model routing (config/model-routing.json): ${routingRules.map(rule => `${rule.name} -> ${rule.model}`).join(', ')}. Deployment successful!`, 
+      model: routedModels.join(' + '),
       version: "2024-12-17",
-      cacheSize: pdfCache.size,
+      cacheSize: (await getDatasheetCacheStats()).datasheets,
       productPageCacheSize: productPageCache.size,
-      maxTokens: ASK_ED_CONFIG.maxTokens
+      maxTokens: ASK_ED_CONFIG.maxTokens,
+      configVersion: askEdContent.version,
+      conversationCount: getConversationCount()
     });
   }
-  const userIP = req.headers['x-forwarded-for']?.toString()?.split(',')[0] || 
-                 req.socket.remoteAddress || 'unknown';
-
   // Validation
-  if (!question || !productSpecs || !productTitle) {
+  if (!question || (!(clientProduct.productSpecs && clientProduct.productTitle) && !sku && !productUrl)) {
     return res.status(400).json({ error: 'Missing required fields' });
   }
+  if ((sku !== undefined && typeof sku !== 'string') || (productUrl !== undefined && typeof productUrl !== 'string')) {
+    return res.status(400).json({ error: 'Invalid product identifier' });
+  }
 
   if (question.length > 500) {
     return res.status(400).json({ error: 'Question too long' });
@@ -766,46 +503,269 @@ export default async function handler(
   }
 
   // Rate limiting
-  if (isRateLimited(userIP)) {
-    return res.status(429).json({ error: 'Rate limit exceeded. Please try again later.' });
+  if (!(await enforceRateLimit(req, res, '/api/ask'))) return;
+
+  const startTime = Date.now();
+
+  // Canonical product context from the catalog; client-supplied fields fill whatever it lacks
+  const catalogProduct = sku || productUrl ? await resolveProductContext(sku, productUrl) : null;
+  if (catalogProduct) {
+    console.log('Product context from catalog:', catalogProduct.source, catalogProduct.sku);
+  } else if (sku || productUrl) {
+    console.log('Product not in catalog, using client-supplied context:', sku || productUrl);
+  }
+  const productTitle = catalogProduct ? catalogProduct.title : clientProduct.productTitle;
+  const productSpecs = (catalogProduct && catalogProduct.specs) || clientProduct.productSpecs;
+  const datasheetUrl = (catalogProduct && catalogProduct.datasheetUrl) || clientProduct.datasheetUrl;
+  const accessories = (catalogProduct && catalogProduct.accessories) || clientProduct.accessories;
+  const similarProducts = (catalogProduct && catalogProduct.similarProducts) || clientProduct.similarProducts;
+  if (!productSpecs || !productTitle) {
+    return res.status(404).json({ error: 'Product not found' });
   }
+  console.log('Specs include dimming:', productSpecs.toLowerCase().includes('dimming'));
+  console.log('Is Non-Dimming:', productSpecs.toLowerCase().includes('non-dimming'));
 
   try {
-    // Determine which model to use based on question type
-    const technicalSpecKeywords = [
-      'constant current', 'voltage range', 'current range', 'adjustment range',
-      'voltage adj', 'current adj', 'output voltage', 'output current',
-      'voltage adjustment', 'current adjustment', 'adjust the voltage', 'adjust the current',
-      'electrical spec', 'power rating', 'efficiency', 'power factor',
-      'derating', 'temperature', 'protection', 'ripple', 'regulation',
-      'cc region', 'cv region', 'adjustable', 'potentiometer', 'trim', 'tuning'
-    ];
-    
-    const questionLower = question.toLowerCase();
-    const isTechnicalSpec = technicalSpecKeywords.some(keyword => questionLower.includes(keyword));
-    const hasAdjustableSuffix = productTitle.includes('-A') || productTitle.includes('-AB');
-    
-    // Use GPT-4o for technical specs, tables, and adjustable models
-    const useAdvancedModel = isTechnicalSpec || (hasAdjustableSuffix && questionLower.includes('adjust'));
-    const selectedModel = useAdvancedModel ? "gpt-4o" : "gpt-4o-mini";
-    
-    console.log('Question type:', isTechnicalSpec ? 'Technical Specification' : 'General');
-    console.log('Selected model:', selectedModel);
-    
-    // Fetch PDF datasheet content if available
+    // Conversation memory - this instance's history wins, then the exchange log after a cold start.
+    // Client-replayed history only contributes the customer's own questions, each validated like
+    // the question itself - assistant turns from the client are never replayed to the model.
+    const storedHistory = getConversationHistory(conversationId, productTitle);
+    const clientTurns = sanitizeTurns(history);
+    const loggedTurns = storedHistory.turns.length === 0 && clientTurns.length > 0 ? await getLoggedTurns(conversationId, productTitle) : [];
+    const restoredHistory = storedHistory.turns.length > 0 ? storedHistory : {
+      summary: '',
+      turns: loggedTurns.length > 0 ? loggedTurns : clientTurns.filter(turn => turn.role === 'user' && validateInput(turn.content))
+    };
+    const conversationHistory = applyHistoryBudget(
+      restoredHistory,
+      ASK_ED_CONFIG.maxHistoryTokens,
+      ASK_ED_CONFIG.maxHistoryTurns
+    );
+    console.log('Conversation:', conversationId, 'replaying turns:', conversationHistory.turns.length);
+
+    // Rewrite forbidden phrases, remember the raw (pre-HTML) answer for follow-up questions, then post-process it
+    let languageRuleHits: LanguageRuleHit[] = [];
+    const finalizeAnswer = (modelAnswer: string): string => {
+      const rewritten = applyLanguageRules(modelAnswer, ASK_ED_CONFIG.languageRules);
+      const rawAnswer = rewritten.text;
+      languageRuleHits = rewritten.hits;
+      if (languageRuleHits.length > 0) {
+        console.log('Language rules fired:', languageRuleHits.map(hit => `"${hit.phrase}" x${hit.count}`).join(', '));
+      }
+
+      saveConversationHistory(conversationId, productTitle, applyHistoryBudget({
+        summary: conversationHistory.summary,
+        turns: [
+          ...conversationHistory.turns,
+          { role: 'user', content: question },
+          { role: 'assistant', content: rawAnswer }
+        ]
+      }, ASK_ED_CONFIG.maxHistoryTokens, ASK_ED_CONFIG.maxHistoryTurns));
+
+      // Enhanced post-processing for Ask ED responses
+      return processAskEdResponse(rawAnswer, datasheetUrl, productTitle);
+    };
+
+    // Structured payload for clients that render answers themselves - `answer` keeps the legacy HTML
+    let modelSpecs: ModelSpecs | null = null;
+    let datasheetTable: DatasheetTable | null = null;
     let datasheetContent = '';
+    const structureAnswer = (processedAnswer: string): StructuredAnswer | undefined => {
+      if (req.body.responseFormat !== 'structured') return undefined;
+      return buildStructuredAnswer(processedAnswer, { datasheetUrl, accessories });
+    };
+
+    // Cite the spec line or datasheet section behind each quoted value; templates make no spec claims
+    const annotateAnswer = (responseData: AskResponse) => {
+      const processedAnswer = responseData.answer || '';
+      if (!responseData.citations) {
+        responseData.citations = findCitations(processedAnswer.replace(/<[^>]*>/g, ''), { productSpecs, datasheetContent, modelSpecs });
+      }
+      responseData.lowConfidence = responseData.model !== 'template' && responseData.citations.length === 0;
+      responseData.structured = structureAnswer(processedAnswer);
+      responseData.configVersion = askEdContent.version;
+      responseData.languageRuleHits = languageRuleHits;
+
+      // Prefill the quote form with the product and the last quantity the customer mentioned - only
+      // when the pricing template answered or the classifier is confident, since the widget offers
+      // the form whenever quoteRequest is present
+      const isPricing = responseData.intent === 'pricing' || responseData.intent === 'volumePricing';
+      const confidentIntent = responseData.model === 'template' || (responseData.intentConfidence || 0) >= ASK_ED_CONFIG.intentConfidenceThreshold;
+      if (isPricing && confidentIntent) {
+        const customerTexts = [question].concat(conversationHistory.turns
+          .filter(turn => turn.role === 'user')
+          .map(turn => turn.content)
+          .reverse());
+        responseData.quoteRequest = {
+          productTitle,
+          sku: (catalogProduct && catalogProduct.sku) || sku || extractModelNumber(productTitle) || undefined,
+          quantity: extractQuantity(customerTexts) || undefined
+        };
+      }
+    };
+
+    // Persist every exchange for review in /admin/exchanges
+    let datasheetStatus: DatasheetStatus = 'none';
+    let numericGuardOutcome: NumericGuardOutcome | undefined;
+    let routingRule: string | undefined;
+    let llmProvider: string | undefined;
+    const modelUsage: ModelUsage[] = [];
+    const trackUsage = (model: string, usage: TokenUsage | null) => {
+      if (usage) modelUsage.push(Object.assign({ model, costUsd: estimateCost(model, usage) }, usage));
+    };
+    const recordExchange = async (responseData: AskResponse, usage: TokenUsage | null) => {
+      // Part numbers missing from the SKU catalog were most likely invented - queue them for review
+      const knownModels = [extractModelNumber(productTitle) || '', modelSpecs ? modelSpecs.column : ''];
+      const unknownSkus = responseData.model === 'template' ? [] : findUnknownSkus((responseData.answer || '').replace(/<[^>]*>/g, ' '), knownModels);
+      if (unknownSkus.length > 0) {
+        console.log('Unknown SKUs in answer:', unknownSkus.join(', '));
+      }
+
+      const record = await logExchange({
+        conversationId,
+        question,
+        productTitle,
+        model: responseData.model || 'unknown',
+        intent: responseData.intent,
+        datasheetUrl: datasheetUrl || null,
+        datasheetStatus,
+        latencyMs: Date.now() - startTime,
+        usage,
+        routingRule,
+        provider: llmProvider,
+        modelUsage: modelUsage.length > 0 ? modelUsage : undefined,
+        costUsd: modelUsage.length > 0 ? Math.round(modelUsage.reduce((total, call) => total + call.costUsd, 0) * 1000000) / 1000000 : undefined,
+        answer: responseData.answer || '',
+        configVersion: responseData.configVersion,
+        languageRuleHits: responseData.languageRuleHits && responseData.languageRuleHits.length > 0 ? responseData.languageRuleHits : undefined,
+        safetyCategory: responseData.safety ? responseData.safety.category : undefined,
+        citations: responseData.citations,
+        lowConfidence: responseData.lowConfidence,
+        numericGuard: numericGuardOutcome,
+        unknownSkus: unknownSkus.length > 0 ? unknownSkus : undefined,
+        flagged: unknownSkus.length > 0,
+        flagNote: unknownSkus.length > 0 ? `Recommended SKUs not in the catalog: ${unknownSkus.join(', ')}` : undefined,
+        flaggedAt: unknownSkus.length > 0 ? new Date().toISOString() : undefined
+      });
+      if (record) responseData.exchangeId = record.id;
+    };
+
+    // Answers produced without a completion still honor the streaming contract
+    const sendAnswer = async (responseData: AskResponse, afterRecord?: () => Promise<unknown>) => {
+      annotateAnswer(responseData);
+      await recordExchange(responseData, null);
+      if (afterRecord) await afterRecord();
+      if (wantsEventStream(req)) {
+        startEventStream(res);
+        sendEvent(res, 'done', responseData);
+        res.end();
+        return;
+      }
+      res.status(200).json(responseData);
+    };
+
+    // Classify the question locally before spending a completion on it
+    const intentResult = classifyIntent(question);
+    console.log('Intent:', intentResult.intent, 'confidence:', intentResult.confidence);
+
+    // Safety-critical questions always get the conservative answer and an expert referral - never the LLM
+    const safety = intentResult.intent === 'safetyCritical' ? classifySafety(question) : null;
+    if (safety) {
+      console.log('Safety-critical question:', safety.category);
+      const safetyResponse: AskResponse = {
+        answer: finalizeAnswer(formatSafetyAnswer(safety, ASK_ED_CONFIG.templates.expertConsultation)),
+        model: 'template',
+        citations: [],
+        conversationId,
+        intent: intentResult.intent,
+        intentConfidence: intentResult.confidence,
+        safety: { category: safety.category, label: safety.label }
+      };
+      return sendAnswer(safetyResponse, () => logSafetyEvent({
+        conversationId,
+        exchangeId: safetyResponse.exchangeId,
+        question,
+        productTitle,
+        category: safety.category,
+        label: safety.label,
+        matchedPatterns: safety.matchedPatterns,
+        answer: safetyResponse.answer || ''
+      }));
+    }
+
+    // Template sections are only offered when they exist on this product page
+    const hasSimilarProducts = !!similarProducts && similarProducts.trim().length > 10;
+    const hasAccessories = !!accessories && accessories.trim().length > 10;
+    const templateKey = ASK_ED_CONFIG.intentTemplates[intentResult.intent];
+    const templateSectionAvailable =
+      (intentResult.intent !== 'accessories' || hasAccessories) &&
+      (intentResult.intent !== 'similarProducts' || hasSimilarProducts);
+
+    if (templateKey && templateSectionAvailable && intentResult.confidence >= ASK_ED_CONFIG.intentConfidenceThreshold) {
+      console.log('Answered from template:', templateKey);
+      return sendAnswer({
+        answer: finalizeAnswer(ASK_ED_CONFIG.templates[templateKey]),
+        model: 'template',
+        citations: [],
+        conversationId,
+        intent: intentResult.intent,
+        intentConfidence: intentResult.confidence
+      });
+    }
+
+    // Decode series/wattage/voltage/suffix from the part number
+    const decodedModel = decodeModelNumber(productTitle, ASK_ED_CONFIG.ledDriverSuffixes, ASK_ED_CONFIG.suffixEncodedSeries);
+    if (decodedModel) {
+      console.log('Decoded model:', decodedModel.modelNumber, 'suffix:', decodedModel.suffix || 'blank');
+    }
+
+    // Unambiguous suffix questions (dimming, IP rating, adjustability) don't need the LLM
+    const modelFactAnswer = answerFromModelFacts(question, decodedModel, productSpecs);
+    if (modelFactAnswer) {
+      console.log('Answered from model decode:', modelFactAnswer.topic);
+      return sendAnswer({
+        answer: finalizeAnswer(modelFactAnswer.answer),
+        model: 'model-decoder',
+        citations: decodedModel ? [partNumberCitation(decodedModel.modelNumber, decodedModel.suffix)] : [],
+        conversationId,
+        intent: intentResult.intent,
+        intentConfidence: intentResult.confidence
+      });
+    }
+
+    // Fetch PDF datasheet content if available
+    let resolvedModelSpecs = '';
     if (datasheetUrl) {
       console.log('Fetching datasheet:', datasheetUrl);
-      datasheetContent = await fetchPDFContent(datasheetUrl);
+      const datasheet = await fetchPDFContent(datasheetUrl);
+      datasheetContent = datasheet.content;
+      datasheetTable = datasheet.table;
+      datasheetStatus = datasheetContent ? 'extracted' : 'failed';
       if (datasheetContent) {
         console.log('Successfully extracted PDF content, length:', datasheetContent.length);
       }
+      
+      // Resolve the exact model's row so the model never has to read the raw table
+      modelSpecs = datasheet.table ? getModelSpecs(datasheet.table, productTitle) : null;
+      if (modelSpecs) {
+        resolvedModelSpecs = formatModelSpecs(modelSpecs);
+        datasheetStatus = 'resolved';
+        console.log('Resolved datasheet column:', modelSpecs.column, 'exact match:', modelSpecs.exactMatch);
+      }
     }
 
-    // Check section availability
-    const hasSimilarProducts = similarProducts && similarProducts.trim().length > 10;
-    const hasAccessories = accessories && accessories.trim().length > 10;
-    
+    // Pick the model from the routing rules in config/model-routing.json
+    const route = resolveModelRoute({
+      question,
+      intent: intentResult.intent,
+      productTitle,
+      datasheetChars: datasheetContent.length,
+      adjustableSuffix: !!decodedModel?.suffixMeaning?.adjustable
+    });
+    const selectedModel = route.model;
+    routingRule = route.rule;
+    console.log('Selected model:', selectedModel, 'rule:', route.rule);
+
     // Optimize token usage for cost-effectiveness
     const truncatedSpecs = productSpecs.substring(0, ASK_ED_CONFIG.maxProductPageTokens);
     const truncatedDatasheet = datasheetContent.substring(0, ASK_ED_CONFIG.maxDatasheetTokens);
@@ -815,6 +775,10 @@ export default async function handler(
 Product Specifications:
 ${truncatedSpecs}
 
+${decodedModel ? formatModelFacts(decodedModel) : ''}
+
+${resolvedModelSpecs}
+
 ${truncatedDatasheet ? `Datasheet Info (USE ONLY DATA FOR MODEL: ${productTitle}):
 ${truncatedDatasheet}` : ''}
 
@@ -830,47 +794,183 @@ Question: ${question}`;
 
     // Create dynamic system prompt with section availability
     
-    const dynamicSystemPrompt = ASK_ED_SYSTEM_PROMPT
+    const dynamicSystemPrompt = askEdContent.systemPrompt
       .replace('[SIMILAR_PRODUCTS_AVAILABLE]', hasSimilarProducts ? 'Available' : 'Not Available') 
       .replace('[ACCESSORIES_AVAILABLE]', hasAccessories ? 'Available' : 'Not Available');
 
-    const completion = await openai.chat.completions.create({
-      model: selectedModel,
-      messages: [
-        {
-          role: "system",
-          content: dynamicSystemPrompt
-        },
-        {
-          role: "user",
-          content: userMessage
+    const historyMessages: LlmMessage[] = [];
+    if (conversationHistory.summary) {
+      historyMessages.push({
+        role: "system",
+        content: `Earlier in this conversation (summary):\n${conversationHistory.summary}`
+      });
+    }
+    conversationHistory.turns.forEach(turn => {
+      historyMessages.push({ role: turn.role, content: turn.content });
+    });
+
+    const completionMessages: LlmMessage[] = [
+      {
+        role: "system",
+        content: dynamicSystemPrompt
+      },
+      ...historyMessages,
+      {
+        role: "user",
+        content: userMessage
+      }
+    ];
+
+    const fallbackAnswer = "I'm sorry, I couldn't process your question. Please contact a Bravo Power Expert via web chat or call 408-733-9090 for assistance.";
+
+    // Hallucination guard - runs on the raw answer before processAskEdResponse
+    const guardSources: NumericGuardSources = {
+      productSpecs: truncatedSpecs,
+      datasheetContent: truncatedDatasheet,
+      resolvedSpecs: resolvedModelSpecs,
+      table: datasheetTable,
+      modelSpecs,
+      modelFacts: decodedModel ? formatModelFacts(decodedModel) : undefined
+    };
+    const guardAnswer = async (rawAnswer: string, usage: TokenUsage | null): Promise<{ rawAnswer: string; usage: TokenUsage | null }> => {
+      const guard = ASK_ED_CONFIG.numericGuard;
+      const check = checkNumericValues(rawAnswer, guardSources);
+      if (!guard.enabled || check.unverifiedValues.length === 0) return { rawAnswer, usage };
+
+      console.log('Numeric guard - unverified values:', check.unverifiedValues.join(', '),
+                  check.neighbourValues.length > 0 ? `(other model columns: ${check.neighbourValues.join(', ')})` : '');
+      const outcome = { unverifiedValues: check.unverifiedValues, neighbourValues: check.neighbourValues };
+
+      if (guard.regenerateModel) {
+        try {
+          const retry = await llm.complete({
+            model: guard.regenerateModel,
+            messages: [
+              ...completionMessages,
+              { role: "assistant", content: rawAnswer },
+              { role: "user", content: guard.correctionPrompt.replace('[VALUES]', check.unverifiedValues.join(', ')) }
+            ],
+            maxTokens: ASK_ED_CONFIG.maxTokens,
+            temperature: ASK_ED_CONFIG.temperature
+          });
+          const retryAnswer = retry.content;
+          trackUsage(retry.model, retry.usage);
+          usage = addTokenUsage(usage, retry.usage);
+
+          if (retryAnswer && checkNumericValues(retryAnswer, guardSources).unverifiedValues.length === 0) {
+            console.log('Numeric guard - regenerated with', retry.model);
+            numericGuardOutcome = Object.assign({ action: 'regenerated' as const, model: retry.model }, outcome);
+            return { rawAnswer: retryAnswer, usage };
+          }
+        } catch (error) {
+          console.error('Numeric guard regeneration error:', error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      console.log('Numeric guard - answered with missingSpec template');
+      numericGuardOutcome = Object.assign({ action: 'missingSpec' as const }, outcome);
+      return { rawAnswer: fillDatasheetUrl(ASK_ED_CONFIG.templates.missingSpec, datasheetUrl), usage };
+    };
+
+    // Streaming mode - forward tokens over Server-Sent Events as they arrive
+    if (wantsEventStream(req)) {
+      const stream = await llm.stream({
+        model: selectedModel,
+        messages: completionMessages,
+        maxTokens: route.maxTokens,
+        temperature: ASK_ED_CONFIG.temperature
+      });
+      startEventStream(res);
+
+      let rawAnswer = '';
+      let lastSentLength = 0;
+      let heldBack = false;
+      let streamUsage: TokenUsage | null = null;
+      for await (const chunk of stream.chunks) {
+        // A stalled provider was replaced mid-answer - the next snapshot replaces the partial text
+        if (chunk.restart) {
+          rawAnswer = '';
+          lastSentLength = 0;
+          heldBack = false;
+          streamUsage = null;
+        }
+        rawAnswer += chunk.content;
+        if (chunk.usage) streamUsage = chunk.usage;
+
+        // Only re-render once a new complete word is available; the widget replaces its text with each snapshot
+        const stableText = getStableStreamingText(rawAnswer);
+        if (!heldBack && stableText.length > lastSentLength) {
+          // Stop streaming at the first value the guard would reject - only the checked done payload shows the rest
+          if (ASK_ED_CONFIG.numericGuard.enabled && checkNumericValues(stableText, guardSources).unverifiedValues.length > 0) {
+            console.log('Numeric guard - holding back the rest of the stream');
+            heldBack = true;
+            continue;
+          }
+          lastSentLength = stableText.length;
+          const partialAnswer = processAskEdResponse(applyLanguageRules(stableText, ASK_ED_CONFIG.languageRules).text, datasheetUrl, productTitle, true);
+          sendEvent(res, 'delta', { answer: partialAnswer, structured: structureAnswer(partialAnswer) });
         }
-      ],
-      max_tokens: ASK_ED_CONFIG.maxTokens,
+      }
+
+      llmProvider = stream.provider;
+      trackUsage(stream.model, streamUsage);
+      const guarded = await guardAnswer(rawAnswer || fallbackAnswer, streamUsage);
+      const finalData: AskResponse = {
+        answer: finalizeAnswer(guarded.rawAnswer),
+        model: stream.model,
+        conversationId,
+        intent: intentResult.intent,
+        intentConfidence: intentResult.confidence
+      };
+      annotateAnswer(finalData);
+      await recordExchange(finalData, guarded.usage);
+      sendEvent(res, 'done', finalData);
+      res.end();
+      return;
+    }
+
+    const completion = await llm.complete({
+      model: selectedModel,
+      messages: completionMessages,
+      maxTokens: route.maxTokens,
       temperature: ASK_ED_CONFIG.temperature, // Low temperature for consistent, factual responses
     });
+    llmProvider = completion.provider;
 
-    let answer = completion.choices[0].message.content || 
-                  "I'm sorry, I couldn't process your question. Please contact a Bravo Power Expert via web chat or call 408-733-9090 for assistance.";
-
-    // Enhanced post-processing for Ask ED responses
-    answer = processAskEdResponse(answer, datasheetUrl, productTitle);
+    trackUsage(completion.model, completion.usage);
+    const guarded = await guardAnswer(completion.content || fallbackAnswer, completion.usage);
+    const answer = finalizeAnswer(guarded.rawAnswer);
     
     // Add model info to response for debugging (remove in production if desired)
     const responseData: AskResponse = { 
       answer,
-      model: selectedModel
+      model: completion.model,
+      conversationId,
+      intent: intentResult.intent,
+      intentConfidence: intentResult.confidence
     };
 
+    annotateAnswer(responseData);
+    await recordExchange(responseData, guarded.usage);
     res.status(200).json(responseData);
 
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('Ask Ed API error:', error);
     console.error('Error details:', {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
       hasApiKey: !!process.env.OPENAI_API_KEY
     });
+
+    // Stream already started - report the failure as an event instead of a status code
+    if (res.headersSent) {
+      sendEvent(res, 'error', {
+        error: 'I\'m experiencing technical difficulties. Please contact a Bravo Power Expert via web chat or call 408-733-9090.'
+      });
+      res.end();
+      return;
+    }
+
     res.status(500).json({ 
       error: 'I\'m experiencing technical difficulties. Please contact a Bravo Power Expert via web chat or call 408-733-9090.',
       debug: process.env.NODE_ENV === 'development' ? error instanceof Error ? error.message : String(error) : undefined
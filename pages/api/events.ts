@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  AnalyticsEvent,
+  QUESTION_CATEGORIES,
+  SERVER_EVENT_NAMES,
+  isAnalyticsEventName,
+  recordAnalyticsEvent
+} from '../../lib/analyticsEvents';
+import { ApiErrorCode } from '../../lib/apiErrors';
+import { applyCors } from '../../lib/cors';
+import { isValidExchangeId } from '../../lib/exchangeLog';
+import { SESSION_ID_PATTERN, cleanText } from '../../lib/formFields';
+import { enforceRateLimit } from '../../lib/rateLimit';
+
+interface EventRequest {
+  name: string;
+  sessionId: string;
+  pagePath?: unknown;
+  productTitle?: unknown;
+  sku?: unknown;
+  surface?: unknown;
+  question?: unknown;
+  questionCategory?: unknown;
+  hasDatasheet?: unknown;
+  conversationId?: unknown;
+  exchangeId?: unknown;
+  responseLength?: unknown;
+  responseTimeMs?: unknown;
+  containsLinks?: unknown;
+  errorType?: unknown;
+  errorMessage?: unknown;
+}
+
+interface EventResponse {
+  success?: boolean;
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_QUESTION_LENGTH = 1000;
+
+function cleanNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+}
+
+function cleanBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+// Widget analytics events (ANALYTICS_TRACKING_PLAN.md) - the server-side copy of what goes to GA4
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<EventResponse>
+) {
+  if (!applyCors(req, res, { methods: 'POST, OPTIONS' })) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const body: EventRequest = req.body || {};
+
+  if (!isAnalyticsEventName(body.name) || SERVER_EVENT_NAMES.indexOf(body.name) !== -1 ||
+      typeof body.sessionId !== 'string' || !SESSION_ID_PATTERN.test(body.sessionId)) {
+    return res.status(400).json({ error: 'Expected { name: "ask_ed_*", sessionId, ...params }' });
+  }
+
+  if (!(await enforceRateLimit(req, res, '/api/events'))) return;
+
+  const questionCategory = cleanText(body.questionCategory, MAX_TEXT_LENGTH);
+  const event: Omit<AnalyticsEvent, 'id' | 'timestamp'> = {
+    name: body.name,
+    sessionId: body.sessionId,
+    pagePath: cleanText(body.pagePath, MAX_TEXT_LENGTH),
+    productTitle: cleanText(body.productTitle, MAX_TEXT_LENGTH),
+    sku: cleanText(body.sku, 100),
+    surface: cleanText(body.surface, 50),
+    question: cleanText(body.question, MAX_QUESTION_LENGTH),
+    questionCategory: questionCategory && QUESTION_CATEGORIES.indexOf(questionCategory) !== -1 ? questionCategory : undefined,
+    hasDatasheet: cleanBoolean(body.hasDatasheet),
+    conversationId: cleanText(body.conversationId, 100),
+    exchangeId: isValidExchangeId(body.exchangeId) ? body.exchangeId : undefined,
+    responseLength: cleanNumber(body.responseLength),
+    responseTimeMs: cleanNumber(body.responseTimeMs),
+    containsLinks: cleanBoolean(body.containsLinks),
+    errorType: cleanText(body.errorType, 50),
+    errorMessage: cleanText(body.errorMessage, MAX_TEXT_LENGTH)
+  };
+
+  await recordAnalyticsEvent(event);
+  return res.status(200).json({ success: true });
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ApiErrorCode } from '../../lib/apiErrors';
+import { applyCors } from '../../lib/cors';
+import { FeedbackRating, isValidExchangeId, recordFeedback } from '../../lib/exchangeLog';
+import { enforceRateLimit } from '../../lib/rateLimit';
+
+interface FeedbackRequest {
+  exchangeId: string;
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+interface FeedbackResponse {
+  success?: boolean;
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// Thumbs up/down on a single Ask Ed answer, stored on the logged exchange
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeedbackResponse>
+) {
+  if (!applyCors(req, res, { methods: 'POST, OPTIONS' })) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { exchangeId, rating, comment }: FeedbackRequest = req.body || {};
+
+  if (!isValidExchangeId(exchangeId) || (rating !== 'up' && rating !== 'down')) {
+    return res.status(400).json({ error: 'Expected { exchangeId, rating: "up" | "down", comment? }' });
+  }
+
+  if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+    return res.status(400).json({ error: `Comment must be text of at most ${MAX_COMMENT_LENGTH} characters` });
+  }
+
+  if (!(await enforceRateLimit(req, res, '/api/feedback'))) return;
+
+  try {
+    // Comments are shown in the admin dashboard as plain text - drop any markup
+    const cleanComment = comment ? comment.replace(/<[^>]*>/g, '').trim() : '';
+    const exchange = await recordFeedback(exchangeId, rating, cleanComment || undefined);
+    if (!exchange) {
+      return res.status(404).json({ error: 'Answer not found' });
+    }
+
+    console.log('Feedback:', rating, exchange.productTitle, cleanComment ? 'with comment' : '');
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Feedback error:', error);
+    return res.status(500).json({ error: 'Could not save feedback' });
+  }
+}
@@ -0,0 +1,102 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ApiErrorCode } from '../../lib/apiErrors';
+import { loadAskEdContentConfig } from '../../lib/askEdConfig';
+import { applyCors } from '../../lib/cors';
+import { isValidConversationId, sanitizeTurns } from '../../lib/conversationMemory';
+import { EMAIL_PATTERN, PHONE_PATTERN, cleanText, isPageUrl } from '../../lib/formFields';
+import { HandoffContact, buildHandoffTranscript, createHandoff } from '../../lib/handoff';
+import { enforceRateLimit } from '../../lib/rateLimit';
+import { requireWidgetToken } from '../../lib/widgetToken';
+
+interface HandoffRequest {
+  conversationId?: string;
+  sku?: unknown;
+  productTitle?: unknown;
+  pageUrl: string;
+  history?: unknown;
+  customer?: { name?: unknown; email?: unknown; phone?: unknown; company?: unknown };
+  message?: unknown;
+}
+
+interface HandoffResponse {
+  reference?: string;
+  message?: string;
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// "Talk to an expert" - sends the conversation to a Bravo Power Expert and returns a reference number
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HandoffResponse>
+) {
+  if (!applyCors(req, res, { methods: 'POST, OPTIONS' })) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Same signed widget token as /api/ask - tickets reach staff inboxes, so only real widgets may send them
+  if (!requireWidgetToken(req, res)) return;
+
+  const body: HandoffRequest = req.body || {};
+  const customerInput = body.customer || {};
+
+  if (!isPageUrl(body.pageUrl)) {
+    return res.status(400).json({ error: 'Expected { pageUrl, conversationId?, sku?, productTitle?, history?, customer?, message? }' });
+  }
+
+  if (body.conversationId !== undefined && !isValidConversationId(body.conversationId)) {
+    return res.status(400).json({ error: 'Invalid conversationId' });
+  }
+
+  const customer: HandoffContact = {
+    name: cleanText(customerInput.name),
+    email: cleanText(customerInput.email),
+    phone: cleanText(customerInput.phone, 30),
+    company: cleanText(customerInput.company)
+  };
+
+  if (customer.email && !EMAIL_PATTERN.test(customer.email)) {
+    return res.status(400).json({ error: 'Please enter a valid email address' });
+  }
+
+  if (customer.phone && !PHONE_PATTERN.test(customer.phone)) {
+    return res.status(400).json({ error: 'Please enter a valid phone number' });
+  }
+
+  if (typeof body.message === 'string' && body.message.length > MAX_MESSAGE_LENGTH) {
+    return res.status(400).json({ error: `Message must be at most ${MAX_MESSAGE_LENGTH} characters` });
+  }
+
+  if (!(await enforceRateLimit(req, res, '/api/handoff', 'Rate limit exceeded. Please call 408-733-9090 to reach a Bravo Power Expert.'))) return;
+
+  const message = cleanText(body.message, MAX_MESSAGE_LENGTH, true);
+
+  try {
+    const { transcript, source } = await buildHandoffTranscript(body.conversationId, sanitizeTurns(body.history));
+    if (transcript.length === 0 && !message) {
+      return res.status(400).json({ error: 'Ask a question or add a message for the expert first' });
+    }
+
+    const ticket = await createHandoff({
+      conversationId: body.conversationId,
+      sku: cleanText(body.sku, 100),
+      productTitle: cleanText(body.productTitle),
+      pageUrl: body.pageUrl,
+      customer,
+      message,
+      transcript,
+      transcriptSource: source
+    });
+
+    const confirmation = loadAskEdContentConfig().templates.handoffConfirmation.replace(/\[REFERENCE\]/g, ticket.reference);
+    return res.status(200).json({ reference: ticket.reference, message: confirmation });
+  } catch (error) {
+    console.error('Handoff error:', error instanceof Error ? error.message : String(error));
+    return res.status(502).json({ error: 'Could not reach a Bravo Power Expert right now. Please call 408-733-9090.' });
+  }
+}
@@ -0,0 +1,128 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAnalyticsEvent } from '../../lib/analyticsEvents';
+import { ApiErrorCode } from '../../lib/apiErrors';
+import { loadAskEdContentConfig } from '../../lib/askEdConfig';
+import { applyCors } from '../../lib/cors';
+import { isValidConversationId } from '../../lib/conversationMemory';
+import { isValidExchangeId } from '../../lib/exchangeLog';
+import { EMAIL_PATTERN, PHONE_PATTERN, SESSION_ID_PATTERN, cleanText, isPageUrl } from '../../lib/formFields';
+import { enforceRateLimit } from '../../lib/rateLimit';
+import { MAX_RFQ_QUANTITY, RfqContact, submitRfq } from '../../lib/rfq';
+import { requireWidgetToken } from '../../lib/widgetToken';
+
+interface RfqRequest {
+  sku?: unknown;
+  productTitle?: unknown;
+  quantity?: unknown;
+  customer?: { name?: unknown; email?: unknown; phone?: unknown; company?: unknown };
+  comments?: unknown;
+  pageUrl: string;
+  sessionId?: unknown;
+  conversationId?: string;
+  exchangeId?: unknown;
+}
+
+interface RfqResponse {
+  reference?: string;
+  message?: string;
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+const MAX_COMMENTS_LENGTH = 2000;
+
+// Inline quote form shown under pricing answers - forwards the request to the RFQ sink
+// and records the conversion against the Ask Ed session
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RfqResponse>
+) {
+  if (!applyCors(req, res, { methods: 'POST, OPTIONS' })) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Same signed widget token as /api/ask - quote requests reach the sales team, so only real widgets may send them
+  if (!requireWidgetToken(req, res)) return;
+
+  const body: RfqRequest = req.body || {};
+  const customerInput = body.customer || {};
+  const sku = cleanText(body.sku, 100);
+  const productTitle = cleanText(body.productTitle);
+
+  if (!isPageUrl(body.pageUrl) || (!sku && !productTitle)) {
+    return res.status(400).json({ error: 'Expected { pageUrl, sku or productTitle, quantity, customer: { name, email, phone?, company? }, comments?, sessionId?, conversationId?, exchangeId? }' });
+  }
+
+  const quantity = typeof body.quantity === 'string' ? Number(body.quantity) : body.quantity;
+  if (typeof quantity !== 'number' || !isFinite(quantity) || Math.floor(quantity) !== quantity || quantity < 1 || quantity > MAX_RFQ_QUANTITY) {
+    return res.status(400).json({ error: `Please enter a quantity between 1 and ${MAX_RFQ_QUANTITY}` });
+  }
+
+  const name = cleanText(customerInput.name);
+  const email = cleanText(customerInput.email);
+  if (!name) {
+    return res.status(400).json({ error: 'Please enter your name' });
+  }
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({ error: 'Please enter a valid email address' });
+  }
+
+  const customer: RfqContact = {
+    name,
+    email,
+    phone: cleanText(customerInput.phone, 30),
+    company: cleanText(customerInput.company)
+  };
+  if (customer.phone && !PHONE_PATTERN.test(customer.phone)) {
+    return res.status(400).json({ error: 'Please enter a valid phone number' });
+  }
+
+  if (typeof body.comments === 'string' && body.comments.length > MAX_COMMENTS_LENGTH) {
+    return res.status(400).json({ error: `Comments must be at most ${MAX_COMMENTS_LENGTH} characters` });
+  }
+
+  if (body.conversationId !== undefined && !isValidConversationId(body.conversationId)) {
+    return res.status(400).json({ error: 'Invalid conversationId' });
+  }
+
+  // Attribution is best effort - a bad session or exchange id never blocks a quote request
+  const sessionId = typeof body.sessionId === 'string' && SESSION_ID_PATTERN.test(body.sessionId) ? body.sessionId : undefined;
+  const exchangeId = isValidExchangeId(body.exchangeId) ? body.exchangeId : undefined;
+
+  if (!(await enforceRateLimit(req, res, '/api/rfq', 'Rate limit exceeded. Please use the RFQ Form or call 408-733-9090.'))) return;
+
+  try {
+    const submission = await submitRfq({
+      sku,
+      productTitle,
+      quantity,
+      customer,
+      comments: cleanText(body.comments, MAX_COMMENTS_LENGTH, true),
+      pageUrl: body.pageUrl,
+      attribution: { source: 'ask_ed', sessionId, conversationId: body.conversationId, exchangeId }
+    });
+
+    if (sessionId) {
+      await recordAnalyticsEvent({
+        name: 'ask_ed_rfq_submitted',
+        sessionId,
+        pagePath: new URL(submission.pageUrl).pathname,
+        productTitle,
+        sku,
+        conversationId: body.conversationId,
+        exchangeId,
+        quantity,
+        rfqReference: submission.reference
+      });
+    }
+
+    const confirmation = loadAskEdContentConfig().templates.rfqConfirmation.replace(/\[REFERENCE\]/g, submission.reference);
+    return res.status(200).json({ reference: submission.reference, message: confirmation });
+  } catch (error) {
+    console.error('RFQ error:', error instanceof Error ? error.message : String(error));
+    return res.status(502).json({ error: 'Could not send your quote request right now. Please use the RFQ Form or call 408-733-9090.' });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { applyCors } from '../../lib/cors';
+import { enforceRateLimit } from '../../lib/rateLimit';
+import { createWidgetToken, isWidgetTokenRequired } from '../../lib/widgetToken';
+
+interface WidgetTokenResponse {
+  token?: string | null;
+  expiresAt?: number;
+  error?: string;
+}
+
+// Issued when the widget loads; the widget refreshes it shortly before it expires
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WidgetTokenResponse>
+) {
+  if (!applyCors(req, res, { methods: 'GET, OPTIONS' })) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  // Tokens are disabled until WIDGET_TOKEN_SECRET is set
+  if (!isWidgetTokenRequired()) {
+    return res.status(200).json({ token: null });
+  }
+
+  if (!(await enforceRateLimit(req, res, '/api/widget-token'))) return;
+
+  const { token, expiresAt } = createWidgetToken(req.headers.origin?.toString());
+  return res.status(200).json({ token, expiresAt });
+}
@@ -56,15 +56,16 @@ export default function Home() {
             fontSize: '14px'
           }}>
 {`<!-- Add to product page template -->
-<script src="https://your-app.vercel.app/widget.js"></script>`}
+<script src="https://your-app.vercel.app/widget.js"
+        data-api-base="https://your-app.vercel.app"></script>`}
           </pre>
           
           <h3>Setup Steps:</h3>
           <ol>
             <li>Deploy this app to Vercel</li>
-            <li>Update the <code>WIDGET_API_BASE</code> URL in <code>public/widget.js</code></li>
             <li>Add your OpenAI API key to Vercel environment variables</li>
-            <li>Add the script tag to your Magento product page templates</li>
+            <li>Add the script tag to your Magento product page templates, with <code>data-api-base</code> set to your deployment</li>
+            <li>Optionally set colors, position, selectors and greeting with <code>data-*</code> attributes or <code>window.AskEd.init()</code> (see the README)</li>
           </ol>
         </div>
 
@@ -3,9 +3,39 @@
     
     console.log('Ask Ed widget script loaded');
     
-    // Configuration
-    const WIDGET_API_BASE = 'https://ask-ed-chatbot.vercel.app';
+    // Configuration - defaults, overridden by data-* attributes on the script tag,
+    // window.AskEdConfig (set before the script loads) and window.AskEd.init({...})
+    const DEFAULT_CONFIG = {
+        apiBase: 'https://ask-ed-chatbot.vercel.app',
+        theme: {
+            primary: '#005aa6',
+            accent: '#ebb013',
+            text: 'black',
+            fontFamily: 'Arial, sans-serif'
+        },
+        position: 'right', // right, left, bottom-right or bottom-left
+        selectors: {
+            title: null, // Custom CSS selectors are tried before the built-in Magento ones
+            sku: null,
+            specs: null,
+            datasheet: null,
+            accessories: null,
+            similarProducts: null
+        },
+        greeting: null, // Chat window welcome text; {product} is replaced with the part number
+        bubbleText: null, // Welcome bubble next to the logo
+        welcomeBubble: true,
+        autoOpen: false, // Open the chat window by itself after autoOpenDelay
+        autoOpenDelay: 5000,
+        autoOpenPaths: [], // Path prefixes that auto-open applies to - empty means every page
+        autoOpenOncePerSession: true,
+        autoInit: true, // data-auto-init="false" waits for window.AskEd.init()
+        on: {} // Event callbacks: { ready, open, close, question, answer, error, handoff, rfq }
+    };
+    let WIDGET_API_BASE = DEFAULT_CONFIG.apiBase;
+    let widgetConfig = DEFAULT_CONFIG;
     const WIDGET_ID = 'ask-ed-widget-' + Math.random().toString(36).substr(2, 9);
+    const AUTO_OPEN_STORAGE_KEY = 'askEdAutoOpened';
     
     // Prevent multiple initializations
     if (window.askEdInitialized) {
@@ -25,20 +55,225 @@
     console.log('Current script:', CURRENT_SCRIPT);
     console.log('Current script parent:', CURRENT_SCRIPT ? CURRENT_SCRIPT.parentNode : 'none');
     
+    // <script src=".../widget.js" data-api-base="https://staging.example.com" data-position="left" ...>
+    function readDataAttributes(script) {
+        const options = { theme: {}, selectors: {} };
+        if (!script || !script.dataset) return options;
+        const data = script.dataset;
+        const list = value => value.split(',').map(item => item.trim()).filter(Boolean);
+        
+        if (data.apiBase) options.apiBase = data.apiBase;
+        if (data.primaryColor) options.theme.primary = data.primaryColor;
+        if (data.accentColor) options.theme.accent = data.accentColor;
+        if (data.textColor) options.theme.text = data.textColor;
+        if (data.fontFamily) options.theme.fontFamily = data.fontFamily;
+        if (data.position) options.position = data.position;
+        if (data.titleSelector) options.selectors.title = data.titleSelector;
+        if (data.skuSelector) options.selectors.sku = data.skuSelector;
+        if (data.specsSelector) options.selectors.specs = data.specsSelector;
+        if (data.datasheetSelector) options.selectors.datasheet = data.datasheetSelector;
+        if (data.accessoriesSelector) options.selectors.accessories = data.accessoriesSelector;
+        if (data.similarSelector) options.selectors.similarProducts = data.similarSelector;
+        if (data.greeting) options.greeting = data.greeting;
+        if (data.bubbleText) options.bubbleText = data.bubbleText;
+        if (data.welcomeBubble) options.welcomeBubble = data.welcomeBubble !== 'false';
+        if (data.autoOpen) options.autoOpen = data.autoOpen !== 'false';
+        if (data.autoOpenDelay) options.autoOpenDelay = parseInt(data.autoOpenDelay, 10);
+        if (data.autoOpenPaths) options.autoOpenPaths = list(data.autoOpenPaths);
+        if (data.autoOpenOncePerSession) options.autoOpenOncePerSession = data.autoOpenOncePerSession !== 'false';
+        if (data.autoInit) options.autoInit = data.autoInit !== 'false';
+        return options;
+    }
+    
+    // Later sources win; theme, selectors and callbacks are merged key by key
+    function mergeConfig(base, options) {
+        const merged = Object.assign({}, base, options || {});
+        ['theme', 'selectors', 'on'].forEach(key => {
+            merged[key] = Object.assign({}, base[key], (options && options[key]) || {});
+        });
+        merged.apiBase = String(merged.apiBase || DEFAULT_CONFIG.apiBase).replace(/\/$/, '');
+        return merged;
+    }
+    
+    widgetConfig = mergeConfig(mergeConfig(DEFAULT_CONFIG, readDataAttributes(CURRENT_SCRIPT)), window.AskEdConfig);
+    
+    // #005aa6 -> rgba(0, 90, 166, 0.3) for the translucent theme surfaces
+    function themeRgba(hex, alpha) {
+        const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex || '');
+        if (!match) return hex;
+        return `rgba(${parseInt(match[1], 16)}, ${parseInt(match[2], 16)}, ${parseInt(match[3], 16)}, ${alpha})`;
+    }
+    
+    // position: right (default), left, bottom-right or bottom-left
+    function placement() {
+        const position = String(widgetConfig.position || 'right');
+        return { side: position.indexOf('left') !== -1 ? 'left' : 'right', bottom: position.indexOf('bottom') !== -1 };
+    }
+    
+    // The welcome bubble slides in from the logo's side
+    function hiddenBubbleTransform() {
+        return placement().side === 'left' ? 'translateX(-20px)' : 'translateX(20px)';
+    }
+    
+    function primaryColor(alpha) {
+        return alpha === undefined ? widgetConfig.theme.primary : themeRgba(widgetConfig.theme.primary, alpha);
+    }
+    
+    function accentColor(alpha) {
+        return alpha === undefined ? widgetConfig.theme.accent : themeRgba(widgetConfig.theme.accent, alpha);
+    }
+    
+    // Event callbacks - AskEd.on(name, callback) and init({ on: { name: callback } })
+    const eventListeners = {};
+    
+    function emit(eventName, detail) {
+        const callbacks = (eventListeners[eventName] || []).slice();
+        if (widgetConfig.on && typeof widgetConfig.on[eventName] === 'function') {
+            callbacks.unshift(widgetConfig.on[eventName]);
+        }
+        callbacks.forEach(callback => {
+            try {
+                callback(detail || {});
+            } catch (error) {
+                console.error('Ask Ed event callback error:', eventName, error);
+            }
+        });
+    }
+    
+    // Analytics (ANALYTICS_TRACKING_PLAN.md) - events go to GA4 (gtag) or the GTM dataLayer when
+    // the page has one, and always to /api/events for the content gap report in /admin/exchanges
+    const SESSION_STORAGE_KEY = 'ask_ed_session_id';
+    let fallbackSessionId = null;
+    
+    function categorizeQuestion(question) {
+        const q = question.toLowerCase();
+        
+        if (q.match(/price|cost|pricing|expensive|cheap|budget/)) return 'pricing';
+        if (q.match(/spec|specification|voltage|current|power|watt|amp|dimension|size|weight/)) return 'specifications';
+        if (q.match(/compatible|work with|fit|connect|interface|support/)) return 'compatibility';
+        if (q.match(/install|setup|connect|wire|mount|configure/)) return 'installation';
+        if (q.match(/stock|available|inventory|delivery|ship|lead time/)) return 'availability';
+        if (q.match(/vs|versus|compare|difference|better|alternative/)) return 'comparison';
+        if (q.match(/problem|issue|error|trouble|fix|broken|not working/)) return 'troubleshooting';
+        if (q.match(/feature|capability|can it|does it|function/)) return 'features';
+        return 'general';
+    }
+    
+    function newSessionId() {
+        return 'ask_ed_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+    }
+    
+    // One id per browser tab session - kept in memory when storage is blocked
+    function generateSessionId() {
+        try {
+            if (!sessionStorage.getItem(SESSION_STORAGE_KEY)) {
+                sessionStorage.setItem(SESSION_STORAGE_KEY, newSessionId());
+            }
+            const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+            if (stored) return stored;
+        } catch (error) {
+            // Storage can be blocked - fall back to the in-memory id
+        }
+        fallbackSessionId = fallbackSessionId || newSessionId();
+        return fallbackSessionId;
+    }
+    
+    // gaParams are flat (GA4 drops nested custom_parameters) and never include the question
+    // text; serverParams carry the question so the server can categorize the gaps
+    function trackGaEvent(eventName, gaParams) {
+        const params = Object.assign({ event_category: 'Ask_ED_Widget' }, gaParams);
+        try {
+            if (typeof window.gtag === 'function') {
+                window.gtag('event', eventName, params);
+            } else if (Array.isArray(window.dataLayer)) {
+                window.dataLayer.push(Object.assign({ event: eventName }, params));
+            }
+        } catch (error) {
+            console.error('Ask Ed analytics error:', error);
+        }
+    }
+    
+    function trackEvent(eventName, gaParams, serverParams) {
+        trackGaEvent(eventName, gaParams);
+        
+        // Fire-and-forget - keepalive lets the request finish if the customer navigates away
+        try {
+            fetch(`${WIDGET_API_BASE}/api/events`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(Object.assign({
+                    name: eventName,
+                    sessionId: generateSessionId(),
+                    pagePath: window.location.pathname
+                }, serverParams)),
+                keepalive: true
+            }).catch(error => console.error('Ask Ed events error:', error));
+        } catch (error) {
+            console.error('Ask Ed events error:', error);
+        }
+    }
+    
+    // Text of the first element matching a configured selector (invalid selectors are ignored)
+    function queryConfigured(selector) {
+        if (!selector) return null;
+        try {
+            return document.querySelector(selector);
+        } catch (error) {
+            console.error('Ask Ed invalid selector:', selector);
+            return null;
+        }
+    }
+    
+    function queryConfiguredAll(selector) {
+        if (!selector) return [];
+        try {
+            return Array.prototype.slice.call(document.querySelectorAll(selector));
+        } catch (error) {
+            console.error('Ask Ed invalid selector:', selector);
+            return [];
+        }
+    }
+    
+    // "Label: value" lines from table rows, or the element's text when it isn't a table
+    function readSpecsElement(element) {
+        const rows = element.querySelectorAll('tr');
+        if (rows.length === 0) return element.textContent.trim();
+        let text = '';
+        rows.forEach(row => {
+            const cells = row.querySelectorAll('td, th');
+            if (cells.length >= 2 && cells[0].textContent.trim() && cells[1].textContent.trim()) {
+                text += cells[0].textContent.trim() + ': ' + cells[1].textContent.trim() + '\n';
+            }
+        });
+        return text;
+    }
+    
     // Extract product information from Magento page
     function extractProductInfo() {
         console.log('Extracting product information...');
+        const selectors = widgetConfig.selectors;
         
-        // Try multiple selectors commonly used in Magento
-        const title = document.querySelector('.page-title-wrapper h1')?.textContent?.trim() ||
+        // Try the configured selector, then multiple selectors commonly used in Magento
+        const title = queryConfigured(selectors.title)?.textContent?.trim() ||
+                     document.querySelector('.page-title-wrapper h1')?.textContent?.trim() ||
                      document.querySelector('.product-item-name')?.textContent?.trim() ||
                      document.querySelector('h1')?.textContent?.trim() ||
                      document.title;
         
         console.log('Product title:', title);
+        
+        // Magento SKU - the API resolves canonical product context from it; the scraping below is a fallback
+        const sku = queryConfigured(selectors.sku)?.textContent?.trim() ||
+                   document.querySelector('.product.attribute.sku .value')?.textContent?.trim() ||
+                   document.querySelector('[itemprop="sku"]')?.textContent?.trim() ||
+                   document.querySelector('[itemprop="sku"]')?.getAttribute('content') ||
+                   null;
+        
+        console.log('Product SKU:', sku);
                      
         // Look for datasheet PDF links
-        let datasheetUrl = null;
+        const configuredDatasheet = queryConfigured(selectors.datasheet);
+        let datasheetUrl = configuredDatasheet ? (configuredDatasheet.href || configuredDatasheet.querySelector('a')?.href || null) : null;
         const datasheetLinks = document.querySelectorAll('a[href*=".pdf"], a[href*="datasheet"], a[href*="spec"]');
         datasheetLinks.forEach(link => {
             const href = link.href;
@@ -52,7 +287,9 @@
         console.log('Found datasheet URL:', datasheetUrl);
         
         // Extract specifications from various locations with better selectors
-        let specs = '';
+        const configuredSpecs = queryConfigured(selectors.specs);
+        let specs = configuredSpecs ? readSpecsElement(configuredSpecs) : '';
+        if (specs) console.log('Found specs with configured selector:', selectors.specs);
         
         // Try multiple specification table selectors for Magento/Bravo Electro pages
         const specSelectors = [
@@ -74,7 +311,7 @@
         ];
         
         let specTable = null;
-        for (const selector of specSelectors) {
+        for (const selector of specs ? [] : specSelectors) {
             specTable = document.querySelector(selector);
             if (specTable) {
                 console.log('Found specs table with selector:', selector);
@@ -192,8 +429,9 @@
         }
         
         // Extract Similar Products and Accessories sections
-        let similarProducts = '';
-        let accessories = '';
+        const itemText = elements => elements.map(item => item.textContent.trim()).filter(Boolean).map(text => text + '\n').join('');
+        let similarProducts = itemText(queryConfiguredAll(selectors.similarProducts));
+        let accessories = itemText(queryConfiguredAll(selectors.accessories));
         
         // Look for Similar Products section
         const similarSelectors = [
@@ -207,7 +445,7 @@
             '.block-upsell .product-name'
         ];
         
-        for (const selector of similarSelectors) {
+        for (const selector of similarProducts ? [] : similarSelectors) {
             const products = document.querySelectorAll(selector);
             if (products.length > 0) {
                 products.forEach(product => {
@@ -228,7 +466,7 @@
             '[data-content-type="accessories"] .product-item-name'
         ];
         
-        for (const selector of accessorySelectors) {
+        for (const selector of accessories ? [] : accessorySelectors) {
             const accessoryItems = document.querySelectorAll(selector);
             if (accessoryItems.length > 0) {
                 accessoryItems.forEach(item => {
@@ -246,6 +484,8 @@
         console.log('Specs preview:', specs.substring(0, 500));
         
         return {
+            sku: sku,
+            url: window.location.href,
             title: title || 'Product',
             specs: specs || 'No specifications available',
             datasheetUrl: datasheetUrl,
@@ -260,12 +500,18 @@
         const productInfo = extractProductInfo();
         console.log('Product info extracted:', productInfo);
         
+        // Placement - the chat window, search bar and welcome bubble open towards the page
+        const side = placement().side;
+        const oppositeSide = side === 'left' ? 'right' : 'left';
+        const isBottom = placement().bottom;
+        
         // Add mobile-specific styles
         const mobileStyles = `
             <style>
                 @media (max-width: 768px) {
                     #${WIDGET_ID} {
-                        right: 10px !important;
+                        ${side}: 10px !important;
+                        ${oppositeSide}: auto !important;
                         bottom: 20px !important;
                         top: auto !important;
                         transform: none !important;
@@ -304,9 +550,9 @@
                     
                     #${WIDGET_ID}-welcome {
                         position: fixed !important;
-                        right: 100px !important;
+                        ${side}: 100px !important;
                         bottom: 30px !important;
-                        left: 10px !important;
+                        ${oppositeSide}: 10px !important;
                         width: auto !important;
                         max-width: calc(100vw - 120px) !important;
                         font-size: 16px !important;
@@ -373,26 +619,26 @@
         const widgetHTML = mobileStyles + `
             <div id="${WIDGET_ID}" style="
                 position: fixed;
-                right: 20px;
-                top: 60%;
-                transform: translateY(-50%);
+                ${side}: 20px;
+                ${isBottom ? 'bottom: 20px;' : 'top: 60%;'}
+                ${isBottom ? '' : 'transform: translateY(-50%);'}
                 z-index: 9999;
-                font-family: Arial, sans-serif;
+                font-family: ${widgetConfig.theme.fontFamily};
             ">
                 <!-- Chat Window -->
                 <div id="${WIDGET_ID}-chat" style="
                     position: absolute;
-                    top: -200px;
-                    right: 110px;
+                    ${isBottom ? 'bottom: 0;' : 'top: -200px;'}
+                    ${side}: 110px;
                     width: 350px;
                     height: 400px;
-                    background: rgba(0, 90, 166, 0.25);
+                    background: ${primaryColor(0.25)};
                     backdrop-filter: blur(25px);
                     -webkit-backdrop-filter: blur(25px);
                     border: 1px solid rgba(255, 255, 255, 0.15);
                     border-radius: 20px;
                     box-shadow: 0 20px 60px rgba(0, 0, 0, 0.15), 
-                                0 8px 32px rgba(0, 90, 166, 0.1);
+                                0 8px 32px ${primaryColor(0.1)};
                     display: none;
                     flex-direction: column;
                     transform: translateY(20px);
@@ -401,7 +647,7 @@
                 ">
                     <!-- Header -->
                     <div style="
-                        background: linear-gradient(-45deg, #005aa6, #ebb013, #005aa6, #ebb013);
+                        background: linear-gradient(-45deg, ${primaryColor()}, ${accentColor()}, ${primaryColor()}, ${accentColor()});
                         background-size: 400% 400%;
                         animation: gradient 6s ease infinite;
                         color: white;
@@ -474,7 +720,7 @@
                             }
                         </style>
                         <div id="${WIDGET_ID}-welcome-msg" style="
-                            background: rgba(0, 90, 166, 0.35);
+                            background: ${primaryColor(0.35)};
                             backdrop-filter: blur(20px);
                             -webkit-backdrop-filter: blur(20px);
                             border: 2px solid rgba(255, 255, 255, 0.6);
@@ -484,9 +730,9 @@
                             font-size: 15px;
                             line-height: 1.5;
                             font-weight: 500;
-                            box-shadow: 0 8px 32px rgba(0, 90, 166, 0.2), 
+                            box-shadow: 0 8px 32px ${primaryColor(0.2)}, 
                                         0 4px 16px rgba(0, 0, 0, 0.05);
-                            color: black;
+                            color: ${widgetConfig.theme.text};
                         ">
                             <span id="${WIDGET_ID}-dynamic-message">👋 Hi! I'm Ask ED, ask me questions about this product and I'll do my best to answer them. Always check the datasheet for the latest information.</span>
                         </div>
@@ -507,14 +753,14 @@
                                 border-radius: 12px;
                                 font-size: 14px;
                                 outline: none;
-                                background: rgba(0, 90, 166, 0.25);
+                                background: ${primaryColor(0.25)};
                                 backdrop-filter: blur(15px);
-                                color: black;
+                                color: ${widgetConfig.theme.text};
                                 transition: all 0.3s ease;
                                 font-family: inherit;
                             ">
                             <button id="${WIDGET_ID}-chat-send" style="
-                                background: linear-gradient(135deg, #005aa6 0%, #ebb013 100%);
+                                background: linear-gradient(135deg, ${primaryColor()} 0%, ${accentColor()} 100%);
                                 color: white;
                                 border: none;
                                 padding: 12px 20px;
@@ -526,6 +772,16 @@
                                 box-shadow: 0 2px 8px rgba(44, 90, 160, 0.3);
                             ">Send</button>
                         </div>
+                        <button id="${WIDGET_ID}-expert" type="button" style="
+                            background: none;
+                            border: none;
+                            color: ${widgetConfig.theme.text};
+                            font-size: 12px;
+                            text-decoration: underline;
+                            cursor: pointer;
+                            padding: 8px 0 0;
+                            font-family: inherit;
+                        ">Talk to an expert</button>
                     </div>
                 </div>
                 
@@ -533,15 +789,15 @@
                 <div id="${WIDGET_ID}-searchbar" style="
                     position: absolute;
                     bottom: 20px;
-                    right: 110px;
+                    ${side}: 110px;
                     width: 0;
                     height: 50px;
-                    background: rgba(0, 90, 166, 0.3);
+                    background: ${primaryColor(0.3)};
                     backdrop-filter: blur(20px);
                     -webkit-backdrop-filter: blur(20px);
                     border: 1px solid rgba(255, 255, 255, 0.2);
                     border-radius: 25px;
-                    box-shadow: 0 8px 32px rgba(0, 90, 166, 0.2),
+                    box-shadow: 0 8px 32px ${primaryColor(0.2)},
                                 0 4px 16px rgba(0, 0, 0, 0.05);
                     overflow: hidden;
                     transition: all 0.3s ease-in-out;
@@ -557,11 +813,11 @@
                         padding: 12px 20px;
                         font-size: 14px;
                         background: transparent;
-                        color: black;
+                        color: ${widgetConfig.theme.text};
                         min-width: 0;
                     ">
                     <button id="${WIDGET_ID}-send" style="
-                        background: #005aa6;
+                        background: ${primaryColor()};
                         color: white;
                         border: none;
                         width: 35px;
@@ -582,44 +838,44 @@
                 <div id="${WIDGET_ID}-welcome" style="
                     position: absolute;
                     bottom: 20px;
-                    right: 120px;
+                    ${side}: 120px;
                     width: 280px;
-                    background: rgba(0, 90, 166, 0.3);
+                    background: ${primaryColor(0.3)};
                     backdrop-filter: blur(20px);
                     -webkit-backdrop-filter: blur(20px);
                     border: 1px solid rgba(255, 255, 255, 0.2);
                     border-radius: 16px;
-                    box-shadow: 0 8px 32px rgba(0, 90, 166, 0.2), 
+                    box-shadow: 0 8px 32px ${primaryColor(0.2)}, 
                                 0 4px 16px rgba(0, 0, 0, 0.05);
                     padding: 16px;
                     font-size: 14px;
                     line-height: 1.4;
                     opacity: 0;
-                    transform: translateX(20px);
+                    transform: ${hiddenBubbleTransform()};
                     transition: all 0.4s ease;
                     pointer-events: none;
                 ">
-                    <div id="${WIDGET_ID}-welcome-text" style="color: black;">Ask me questions about this product!</div>
+                    <div id="${WIDGET_ID}-welcome-text" style="color: ${widgetConfig.theme.text};">Ask me questions about this product!</div>
                     <!-- Speech bubble arrow -->
                     <div style="
                         position: absolute;
                         top: 50%;
-                        right: -8px;
+                        ${side}: -8px;
                         transform: translateY(-50%);
                         width: 0;
                         height: 0;
-                        border-left: 8px solid rgba(0, 90, 166, 0.2);
+                        border-${oppositeSide}: 8px solid ${primaryColor(0.2)};
                         border-top: 8px solid transparent;
                         border-bottom: 8px solid transparent;
                     "></div>
                     <div style="
                         position: absolute;
                         top: 50%;
-                        right: -9px;
+                        ${side}: -9px;
                         transform: translateY(-50%);
                         width: 0;
                         height: 0;
-                        border-left: 9px solid rgba(255, 255, 255, 0.18);
+                        border-${oppositeSide}: 9px solid rgba(255, 255, 255, 0.18);
                         border-top: 9px solid transparent;
                         border-bottom: 9px solid transparent;
                     "></div>
@@ -754,6 +1010,7 @@
         const chatInput = document.getElementById(`${WIDGET_ID}-chat-input`);
         const chatSend = document.getElementById(`${WIDGET_ID}-chat-send`);
         const messages = document.getElementById(`${WIDGET_ID}-messages`);
+        const expertButton = document.getElementById(`${WIDGET_ID}-expert`);
         const welcome = document.getElementById(`${WIDGET_ID}-welcome`);
         const welcomeText = document.getElementById(`${WIDGET_ID}-welcome-text`);
         const dynamicMessage = document.getElementById(`${WIDGET_ID}-dynamic-message`);
@@ -763,13 +1020,67 @@
         let welcomeShown = false;
         let hasConversationStarted = false;
         
+        // Conversation memory - lets Ask Ed answer follow-up questions in context
+        let conversationId = null;
+        const conversationHistory = [];
+        const MAX_HISTORY_TURNS = 10;
+        
+        // Signed widget token - fetched on load, refreshed shortly before it expires
+        let widgetToken = null;
+        let widgetTokenExpiresAt = 0;
+        let widgetTokenChecked = false;
+        const TOKEN_REFRESH_MARGIN = 60; // seconds
+        
+        // surface: search_bar (logo click) or chat (chat window)
+        function trackWidgetOpened(surface) {
+            trackEvent('ask_ed_widget_opened', {
+                event_action: 'widget_opened',
+                event_label: productInfo.title,
+                page_path: window.location.pathname,
+                product_name: productInfo.title,
+                widget_surface: surface
+            }, { productTitle: productInfo.title, sku: productInfo.sku || undefined, surface: surface });
+        }
+        
+        async function refreshWidgetToken() {
+            try {
+                const response = await fetch(`${WIDGET_API_BASE}/api/widget-token`);
+                const data = await response.json();
+                if (!response.ok) {
+                    console.error('Ask Ed token error:', data.code || data.error);
+                    widgetToken = null;
+                    return;
+                }
+                // A null token means the server doesn't require one
+                widgetToken = data.token;
+                widgetTokenExpiresAt = data.expiresAt || 0;
+                widgetTokenChecked = true;
+            } catch (error) {
+                console.error('Ask Ed token error:', error);
+            }
+        }
+        
+        async function getWidgetToken(forceRefresh = false) {
+            const isFresh = widgetToken && Date.now() / 1000 < widgetTokenExpiresAt - TOKEN_REFRESH_MARGIN;
+            if (forceRefresh || !widgetTokenChecked || (widgetToken && !isFresh)) {
+                await refreshWidgetToken();
+            }
+            return widgetToken;
+        }
+        
+        refreshWidgetToken();
+        
         // Detect if mobile device
         const isMobile = () => window.innerWidth <= 768;
         
         // Update welcome text with product name
         const productName = productInfo.title ? 
             productInfo.title.split(' ').slice(0, 3).join(' ') : 'this product';
-        welcomeText.innerHTML = `<strong>I'm Ask ED!</strong> Ask me general questions about the ${productName}.`;
+        if (widgetConfig.bubbleText) {
+            welcomeText.textContent = widgetConfig.bubbleText.replace(/\{product\}/g, productName);
+        } else {
+            welcomeText.innerHTML = `<strong>I'm Ask ED!</strong> Ask me general questions about the ${productName}.`;
+        }
         
         // Update dynamic message with part number and beta text
         // Extract part number - look for patterns like ABC-123-45 or ABC123
@@ -807,14 +1118,18 @@
         }
         messageContent += ' for the most accurate information.';
         
-        dynamicMessage.innerHTML = messageContent;
+        if (widgetConfig.greeting) {
+            dynamicMessage.textContent = widgetConfig.greeting.replace(/\{product\}/g, partNumber);
+        } else {
+            dynamicMessage.innerHTML = messageContent;
+        }
         
         // Set slider input placeholder
         input.placeholder = `Ask a question on this product`;
         
         // Show welcome bubble after a delay
         setTimeout(() => {
-            if (!welcomeShown && !isSearchOpen && !isChatOpen) {
+            if (widgetConfig.welcomeBubble && !welcomeShown && !isSearchOpen && !isChatOpen) {
                 welcome.style.opacity = '1';
                 welcome.style.transform = 'translateX(0)';
                 welcomeShown = true;
@@ -823,7 +1138,7 @@
                 setTimeout(() => {
                     if (welcomeShown && !isSearchOpen && !isChatOpen) {
                         welcome.style.opacity = '0';
-                        welcome.style.transform = 'translateX(20px)';
+                        welcome.style.transform = hiddenBubbleTransform();
                     }
                 }, 5000);
             }
@@ -898,42 +1213,16 @@
             // If conversation has started, toggle chat window instead
             if (hasConversationStarted) {
                 if (!isChatOpen) {
-                    // Open chat window
-                    chat.style.display = 'flex';
-                    setTimeout(() => {
-                        chat.style.transform = 'translateY(0)';
-                        chat.style.opacity = '1';
-                    }, 10);
-                    isChatOpen = true;
-                    
-                    // Prevent body scroll on mobile
-                    if (isMobile()) {
-                        document.body.style.overflow = 'hidden';
-                        document.body.style.position = 'fixed';
-                        document.body.style.width = '100%';
-                    }
+                    openChat();
                 } else {
-                    // Close chat window
-                    chat.style.transform = 'translateY(10px)';
-                    chat.style.opacity = '0';
-                    setTimeout(() => {
-                        chat.style.display = 'none';
-                    }, 300);
-                    isChatOpen = false;
-                    
-                    // Restore body scroll on mobile
-                    if (isMobile()) {
-                        document.body.style.overflow = '';
-                        document.body.style.position = '';
-                        document.body.style.width = '';
-                    }
+                    closeChat();
                 }
             } else {
                 // Original behavior - toggle search bar
                 if (!isSearchOpen) {
                     // Hide welcome bubble
                     welcome.style.opacity = '0';
-                    welcome.style.transform = 'translateX(20px)';
+                    welcome.style.transform = hiddenBubbleTransform();
                     
                     // Open search bar
                     searchbar.style.width = '300px';
@@ -943,20 +1232,38 @@
                     // Don't auto-focus to keep placeholder visible
                     isSearchOpen = true;
                     toggle.style.transform = 'scale(1.08)';
+                    trackWidgetOpened('search_bar');
                 } else {
-                    // Close search bar
-                    searchbar.style.width = '0';
-                    searchbar.style.opacity = '0';
-                    searchbar.style.border = 'none';
-                    send.style.opacity = '0';
-                    isSearchOpen = false;
-                    toggle.style.transform = 'scale(1)';
+                    closeSearchBar();
                 }
             }
         };
         
-        // Close chat window
-        close.onclick = () => {
+        // Open the chat window (also used by AskEd.open() and auto-open)
+        function openChat() {
+            if (isChatOpen) return;
+            welcome.style.opacity = '0';
+            welcome.style.transform = hiddenBubbleTransform();
+            chat.style.display = 'flex';
+            setTimeout(() => {
+                chat.style.transform = 'translateY(0)';
+                chat.style.opacity = '1';
+            }, 10);
+            isChatOpen = true;
+            
+            // Prevent body scroll on mobile
+            if (isMobile()) {
+                document.body.style.overflow = 'hidden';
+                document.body.style.position = 'fixed';
+                document.body.style.width = '100%';
+            }
+            emit('open', { productTitle: productInfo.title });
+            trackWidgetOpened('chat');
+        }
+        
+        // Close the chat window
+        function closeChat() {
+            if (!isChatOpen) return;
             chat.style.transform = 'translateY(10px)';
             chat.style.opacity = '0';
             setTimeout(() => {
@@ -970,33 +1277,29 @@
                 document.body.style.position = '';
                 document.body.style.width = '';
             }
-        };
+            emit('close', { productTitle: productInfo.title });
+        }
+        
+        function closeSearchBar() {
+            searchbar.style.width = '0';
+            searchbar.style.opacity = '0';
+            searchbar.style.border = 'none';
+            send.style.opacity = '0';
+            isSearchOpen = false;
+            toggle.style.transform = 'scale(1)';
+        }
+        
+        close.onclick = closeChat;
+        expertButton.onclick = () => showHandoffForm();
         
         // Close search/chat when clicking outside
         document.addEventListener('click', (e) => {
             if (!document.getElementById(WIDGET_ID).contains(e.target)) {
                 if (isSearchOpen) {
-                    searchbar.style.width = '0';
-                    searchbar.style.opacity = '0';
-                    searchbar.style.border = 'none';
-                    send.style.opacity = '0';
-                    isSearchOpen = false;
-                    toggle.style.transform = 'scale(1)';
+                    closeSearchBar();
                 }
                 if (isChatOpen) {
-                    chat.style.transform = 'translateY(10px)';
-                    chat.style.opacity = '0';
-                    setTimeout(() => {
-                        chat.style.display = 'none';
-                    }, 300);
-                    isChatOpen = false;
-                    
-                    // Restore body scroll on mobile
-                    if (isMobile()) {
-                        document.body.style.overflow = '';
-                        document.body.style.position = '';
-                        document.body.style.width = '';
-                    }
+                    closeChat();
                 }
             }
         });
@@ -1055,42 +1358,567 @@
                 overflow-wrap: break-word;
                 animation: slideIn 0.3s ease-out;
                 ${isUser ? 
-                    `background: linear-gradient(135deg, rgba(0, 90, 166, 0.9) 0%, rgba(235, 176, 19, 0.9) 100%); 
+                    `background: linear-gradient(135deg, ${primaryColor(0.9)} 0%, ${accentColor(0.9)} 100%); 
                      backdrop-filter: blur(15px);
                      -webkit-backdrop-filter: blur(15px);
                      color: white; 
                      margin-left: auto; 
                      margin-right: 0;
                      border-radius: 18px 18px 4px 18px;
-                     box-shadow: 0 8px 32px rgba(0, 90, 166, 0.3),
+                     box-shadow: 0 8px 32px ${primaryColor(0.3)},
                                  0 4px 16px rgba(0, 0, 0, 0.1),
                                  inset 0 1px 0 rgba(255, 255, 255, 0.15);
                      border: 1px solid rgba(255, 255, 255, 0.3);
                      text-shadow: 0 1px 2px rgba(0, 0, 0, 0.2);` : 
-                    `background: rgba(0, 90, 166, 0.35); 
+                    `background: ${primaryColor(0.35)}; 
                      backdrop-filter: blur(20px);
                      -webkit-backdrop-filter: blur(20px);
-                     color: black;
+                     color: ${widgetConfig.theme.text};
                      margin-left: 0;
                      margin-right: auto;
                      border-radius: 18px 18px 18px 4px;
                      border: 2px solid rgba(255, 255, 255, 0.6);
-                     box-shadow: 0 8px 32px rgba(0, 90, 166, 0.2), 
+                     box-shadow: 0 8px 32px ${primaryColor(0.2)}, 
                                  0 4px 16px rgba(0, 0, 0, 0.05);`
                 }
             `;
-            messageDiv.innerHTML = content.replace(/\n/g, '<br>');
+            renderMessageContent(messageDiv, content);
+            
+            messages.appendChild(messageDiv);
+            messages.scrollTop = messages.scrollHeight;
+            return messageDiv;
+        }
+        
+        // Only web and phone links are rendered - anything else (javascript:, data:) stays plain text
+        function isSafeHref(href) {
+            return /^(https?:|tel:)/i.test(href || '');
+        }
+        
+        function appendText(parent, text) {
+            text.split('\n').forEach((line, index) => {
+                if (index > 0) parent.appendChild(document.createElement('br'));
+                if (line) parent.appendChild(document.createTextNode(line));
+            });
+        }
+        
+        function createAnswerLink(text, href) {
+            const link = document.createElement('a');
+            link.href = href;
+            link.textContent = text;
+            link.target = '_blank';
+            link.rel = 'noopener noreferrer';
+            link.style.color = 'white';
+            link.style.textDecoration = 'underline';
+            return link;
+        }
+        
+        // Renders either plain text or a structured answer ({ segments, contactAction }) with DOM
+        // nodes only - answer text is never parsed as HTML
+        function renderMessageContent(messageDiv, content) {
+            messageDiv.textContent = '';
+            if (!content || typeof content === 'string') {
+                appendText(messageDiv, content || '');
+                return;
+            }
+            
+            (content.segments || []).forEach(segment => {
+                if (segment.type === 'link' && isSafeHref(segment.href)) {
+                    const link = createAnswerLink(segment.text, segment.href);
+                    link.setAttribute('data-link-type', segment.linkType);
+                    if (segment.linkType === 'datasheet' || segment.linkType === 'rfq') {
+                        link.style.fontWeight = '600';
+                    }
+                    messageDiv.appendChild(link);
+                } else {
+                    appendText(messageDiv, segment.text || '');
+                }
+            });
+            
+            // Suggested next step, e.g. Request a Quote - skipped when the answer already links to it
+            const action = content.contactAction;
+            const alreadyLinked = action && (content.segments || []).some(segment => segment.href === action.href);
+            if (action && !alreadyLinked && isSafeHref(action.href)) {
+                const actionRow = document.createElement('div');
+                actionRow.style.cssText = 'margin-top: 10px;';
+                const actionLink = createAnswerLink(action.label, action.href);
+                actionLink.style.cssText = `
+                    display: inline-block;
+                    padding: 4px 12px;
+                    border-radius: 12px;
+                    background: ${primaryColor()};
+                    color: white;
+                    text-decoration: none;
+                    font-size: 13px;
+                `;
+                actionRow.appendChild(actionLink);
+                messageDiv.appendChild(actionRow);
+            }
+        }
+        
+        // Servers without structured answers still send the legacy HTML - show it as text
+        function getAnswerContent(data) {
+            if (data.structured) return data.structured;
+            return (data.answer || '').replace(/<[^>]*>/g, '');
+        }
+        
+        // "Source: datasheet, Output section" footnotes - answers that cite nothing are marked low-confidence
+        function addSourceNotes(messageDiv, data) {
+            const citations = data.citations || [];
+            if (citations.length === 0 && !data.lowConfidence) return;
+            
+            const notes = document.createElement('div');
+            notes.style.cssText = `
+                margin-top: 8px;
+                font-size: 11px;
+                line-height: 1.4;
+                opacity: 0.8;
+            `;
+            
+            citations.forEach(citation => {
+                const note = document.createElement('div');
+                note.textContent = citation.label;
+                notes.appendChild(note);
+            });
+            
+            if (data.lowConfidence) {
+                const warning = document.createElement('div');
+                warning.textContent = 'Low confidence - please verify against the datasheet.';
+                warning.style.fontStyle = 'italic';
+                notes.appendChild(warning);
+            }
+            
+            messageDiv.appendChild(notes);
+            messages.scrollTop = messages.scrollHeight;
+        }
+        
+        // 👍/👎 under an Ask ED answer - a thumbs down asks what was wrong before sending
+        function addFeedbackControls(messageDiv, exchangeId) {
+            const feedbackRow = document.createElement('div');
+            feedbackRow.style.cssText = `
+                display: flex;
+                align-items: center;
+                flex-wrap: wrap;
+                gap: 6px;
+                margin-top: 10px;
+                padding-top: 8px;
+                border-top: 1px solid rgba(255, 255, 255, 0.4);
+                font-size: 12px;
+            `;
+            
+            const label = document.createElement('span');
+            label.textContent = 'Was this helpful?';
+            feedbackRow.appendChild(label);
+            
+            const buttonStyle = `
+                background: rgba(255, 255, 255, 0.5);
+                border: 1px solid rgba(255, 255, 255, 0.7);
+                border-radius: 12px;
+                padding: 2px 8px;
+                font-size: 14px;
+                cursor: pointer;
+            `;
+            
+            const thumbsUp = document.createElement('button');
+            thumbsUp.textContent = '👍';
+            thumbsUp.setAttribute('aria-label', 'Helpful answer');
+            thumbsUp.style.cssText = buttonStyle;
+            
+            const thumbsDown = document.createElement('button');
+            thumbsDown.textContent = '👎';
+            thumbsDown.setAttribute('aria-label', 'Unhelpful answer');
+            thumbsDown.style.cssText = buttonStyle;
+            
+            const showThanks = () => {
+                feedbackRow.textContent = 'Thanks for your feedback!';
+            };
+            
+            thumbsUp.onclick = () => {
+                submitFeedback(exchangeId, 'up');
+                showThanks();
+            };
+            
+            thumbsDown.onclick = () => {
+                thumbsUp.remove();
+                thumbsDown.remove();
+                label.textContent = 'What was wrong? (optional)';
+                
+                const commentInput = document.createElement('input');
+                commentInput.type = 'text';
+                commentInput.maxLength = 500;
+                commentInput.placeholder = 'e.g. wrong output current';
+                commentInput.style.cssText = `
+                    flex: 1;
+                    min-width: 140px;
+                    padding: 4px 8px;
+                    border: 1px solid rgba(255, 255, 255, 0.7);
+                    border-radius: 10px;
+                    font-size: 12px;
+                `;
+                
+                const sendFeedback = document.createElement('button');
+                sendFeedback.textContent = 'Send';
+                sendFeedback.style.cssText = buttonStyle + 'font-size: 12px;';
+                sendFeedback.onclick = () => {
+                    submitFeedback(exchangeId, 'down', commentInput.value.trim());
+                    showThanks();
+                };
+                commentInput.onkeypress = (e) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        sendFeedback.onclick();
+                    }
+                };
+                
+                feedbackRow.appendChild(commentInput);
+                feedbackRow.appendChild(sendFeedback);
+                commentInput.focus();
+            };
             
-            // Style links in Ask ED responses (non-user messages)
-            if (!isUser) {
-                const links = messageDiv.querySelectorAll('a');
-                links.forEach(link => {
-                    link.style.color = 'white';
-                    link.style.textDecoration = 'underline';
+            feedbackRow.appendChild(thumbsUp);
+            feedbackRow.appendChild(thumbsDown);
+            messageDiv.appendChild(feedbackRow);
+            messages.scrollTop = messages.scrollHeight;
+        }
+        
+        // Fire-and-forget - feedback failures never interrupt the chat
+        async function submitFeedback(exchangeId, rating, comment) {
+            try {
+                await fetch(`${WIDGET_API_BASE}/api/feedback`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ exchangeId: exchangeId, rating: rating, comment: comment || undefined })
                 });
+            } catch (error) {
+                console.error('Ask Ed feedback error:', error);
             }
-            messages.appendChild(messageDiv);
+        }
+        
+        // POST to a widget API route with the widget token, retrying once with a fresh token on 401
+        async function postWidgetApi(path, requestBody, extraHeaders) {
+            const post = async (forceTokenRefresh) => {
+                const headers = Object.assign({ 'Content-Type': 'application/json' }, extraHeaders);
+                const token = await getWidgetToken(forceTokenRefresh);
+                if (token) headers['X-Ask-Ed-Token'] = token;
+                return fetch(`${WIDGET_API_BASE}${path}`, {
+                    method: 'POST',
+                    headers: headers,
+                    body: requestBody
+                });
+            };
+            
+            let response = await post(false);
+            if (response.status === 401) {
+                response = await post(true);
+            }
+            return response;
+        }
+        
+        // Form inside an Ask ED message - onSubmit resolves with an error message, or null once sent
+        function createInlineForm(messageDiv, submitLabel, onSubmit) {
+            const form = document.createElement('form');
+            form.style.cssText = `
+                display: flex;
+                flex-direction: column;
+                gap: 6px;
+                margin-top: 10px;
+            `;
+            const fields = document.createElement('div');
+            fields.style.cssText = 'display: flex; flex-direction: column; gap: 6px;';
+            form.appendChild(fields);
+            
+            const fieldStyle = `
+                padding: 6px 10px;
+                border: 1px solid rgba(255, 255, 255, 0.7);
+                border-radius: 10px;
+                font-size: 13px;
+                font-family: inherit;
+            `;
+            const addField = (tagName, type, placeholder, maxLength, value) => {
+                const field = document.createElement(tagName);
+                if (type) field.type = type;
+                field.placeholder = placeholder;
+                field.maxLength = maxLength;
+                if (value) field.value = value;
+                field.style.cssText = fieldStyle;
+                fields.appendChild(field);
+                return field;
+            };
+            
+            const status = document.createElement('div');
+            status.style.cssText = 'font-size: 12px;';
+            form.appendChild(status);
+            
+            const buttonStyle = `
+                background: rgba(255, 255, 255, 0.5);
+                border: 1px solid rgba(255, 255, 255, 0.7);
+                border-radius: 12px;
+                padding: 4px 12px;
+                font-size: 12px;
+                cursor: pointer;
+            `;
+            const actions = document.createElement('div');
+            actions.style.cssText = 'display: flex; gap: 6px;';
+            const submitButton = document.createElement('button');
+            submitButton.type = 'submit';
+            submitButton.textContent = submitLabel;
+            submitButton.style.cssText = buttonStyle;
+            const cancelButton = document.createElement('button');
+            cancelButton.type = 'button';
+            cancelButton.textContent = 'Cancel';
+            cancelButton.style.cssText = buttonStyle;
+            // Keep the click from reaching the close-on-outside-click handler once the form is gone
+            cancelButton.onclick = (e) => {
+                e.stopPropagation();
+                messageDiv.remove();
+            };
+            actions.appendChild(submitButton);
+            actions.appendChild(cancelButton);
+            form.appendChild(actions);
+            
+            form.onsubmit = async (e) => {
+                e.preventDefault();
+                submitButton.disabled = true;
+                submitButton.textContent = 'Sending...';
+                status.textContent = '';
+                
+                const error = await onSubmit();
+                if (error) {
+                    status.textContent = error;
+                    submitButton.disabled = false;
+                    submitButton.textContent = submitLabel;
+                } else {
+                    form.remove();
+                }
+            };
+            
+            messageDiv.appendChild(form);
+            return { addField: addField, fields: fields };
+        }
+        
+        // Link-style button under an answer
+        function addAnswerAction(messageDiv, label, onClick) {
+            const action = document.createElement('button');
+            action.type = 'button';
+            action.textContent = label;
+            action.style.cssText = `
+                display: block;
+                margin-top: 8px;
+                background: none;
+                border: none;
+                padding: 0;
+                color: inherit;
+                font-size: 12px;
+                text-decoration: underline;
+                cursor: pointer;
+            `;
+            action.onclick = onClick;
+            messageDiv.appendChild(action);
+        }
+        
+        // "Talk to an expert" - the conversation goes to a Bravo Power Expert through /api/handoff,
+        // so the customer doesn't have to repeat it on the phone or in web chat
+        let handoffMessage = null;
+        
+        function showHandoffForm() {
+            hasConversationStarted = true;
+            closeSearchBar();
+            openChat();
+            if (handoffMessage && messages.contains(handoffMessage)) {
+                handoffMessage.querySelector('input').focus();
+                return;
+            }
+            
+            const messageDiv = addMessage('I\'ll send our conversation to a Bravo Power Expert so you won\'t need to repeat anything. How can they reach you?', false);
+            handoffMessage = messageDiv;
+            
+            let nameInput, emailInput, phoneInput, messageInput;
+            const inlineForm = createInlineForm(messageDiv, 'Send to expert', async () => {
+                const result = await submitHandoff({
+                    name: nameInput.value.trim() || undefined,
+                    email: emailInput.value.trim() || undefined,
+                    phone: phoneInput.value.trim() || undefined
+                }, messageInput.value.trim());
+                
+                if (!result.reference) return result.error;
+                addMessage(result.message || `Your reference number is ${result.reference}.`, false);
+                emit('handoff', { reference: result.reference, conversationId: conversationId, productTitle: productInfo.title });
+                return null;
+            });
+            nameInput = inlineForm.addField('input', 'text', 'Name', 200);
+            emailInput = inlineForm.addField('input', 'email', 'Email', 200);
+            phoneInput = inlineForm.addField('input', 'tel', 'Phone', 30);
+            messageInput = inlineForm.addField('textarea', null, 'Anything else the expert should know? (optional)', 2000);
+            messageInput.rows = 2;
+            
             messages.scrollTop = messages.scrollHeight;
+            nameInput.focus();
+        }
+        
+        // Answers that refer the customer to an expert offer to send the conversation along
+        function addHandoffPrompt(messageDiv) {
+            addAnswerAction(messageDiv, 'Send this conversation to an expert', () => showHandoffForm());
+        }
+        
+        async function submitHandoff(customer, message) {
+            const fallbackError = 'Could not reach a Bravo Power Expert right now. Please call 408-733-9090.';
+            try {
+                const response = await postWidgetApi('/api/handoff', JSON.stringify({
+                    conversationId: conversationId || undefined,
+                    sku: productInfo.sku || undefined,
+                    productTitle: productInfo.title,
+                    pageUrl: productInfo.url,
+                    history: conversationHistory,
+                    customer: customer,
+                    message: message || undefined
+                }));
+                const data = await response.json();
+                return response.ok ? data : { error: data.error || fallbackError };
+            } catch (error) {
+                console.error('Ask Ed handoff error:', error);
+                return { error: fallbackError };
+            }
+        }
+        
+        // Inline quote request - answers carrying a quoteRequest from /api/ask offer the RFQ form right
+        // in the chat, prefilled with the product and the quantity from the conversation.
+        // /api/rfq forwards it to the same place as the bravoelectro.com RFQ form.
+        let quoteMessage = null;
+        
+        function showQuoteForm(quoteRequest, exchangeId) {
+            const prefill = quoteRequest || {};
+            const quoteProduct = {
+                productTitle: prefill.productTitle || productInfo.title,
+                sku: prefill.sku || productInfo.sku || undefined
+            };
+            if (quoteMessage && messages.contains(quoteMessage)) {
+                quoteMessage.querySelector('input').focus();
+                return;
+            }
+            
+            const messageDiv = addMessage('I\'ll send your quote request to our sales team. Check the quantity and tell us where to send the pricing:', false);
+            quoteMessage = messageDiv;
+            
+            let quantityInput, nameInput, emailInput, phoneInput, companyInput, commentsInput;
+            const inlineForm = createInlineForm(messageDiv, 'Request quote', async () => {
+                const quantity = parseInt(quantityInput.value, 10);
+                const result = await submitRfq({
+                    sku: quoteProduct.sku,
+                    productTitle: quoteProduct.productTitle,
+                    quantity: isNaN(quantity) ? undefined : quantity,
+                    customer: {
+                        name: nameInput.value.trim() || undefined,
+                        email: emailInput.value.trim() || undefined,
+                        phone: phoneInput.value.trim() || undefined,
+                        company: companyInput.value.trim() || undefined
+                    },
+                    comments: commentsInput.value.trim() || undefined,
+                    exchangeId: exchangeId
+                });
+                
+                if (!result.reference) return result.error;
+                addMessage(result.message || `Your reference number is ${result.reference}.`, false);
+                emit('rfq', {
+                    reference: result.reference,
+                    conversationId: conversationId,
+                    productTitle: quoteProduct.productTitle,
+                    sku: quoteProduct.sku,
+                    quantity: quantity
+                });
+                // The server records the conversion itself - GA gets its own copy
+                trackGaEvent('ask_ed_rfq_submitted', {
+                    event_action: 'rfq_submitted',
+                    event_label: quoteProduct.productTitle,
+                    product_name: quoteProduct.productTitle,
+                    quantity: quantity
+                });
+                return null;
+            });
+            
+            const productLine = document.createElement('div');
+            productLine.style.cssText = 'font-size: 13px; font-weight: 600;';
+            productLine.textContent = quoteProduct.sku && quoteProduct.productTitle.indexOf(quoteProduct.sku) === -1 ?
+                `${quoteProduct.productTitle} (${quoteProduct.sku})` : quoteProduct.productTitle;
+            inlineForm.fields.appendChild(productLine);
+            quantityInput = inlineForm.addField('input', 'number', 'Quantity', 7, prefill.quantity ? String(prefill.quantity) : '');
+            quantityInput.min = '1';
+            nameInput = inlineForm.addField('input', 'text', 'Name', 200);
+            emailInput = inlineForm.addField('input', 'email', 'Email', 200);
+            phoneInput = inlineForm.addField('input', 'tel', 'Phone (optional)', 30);
+            companyInput = inlineForm.addField('input', 'text', 'Company (optional)', 200);
+            commentsInput = inlineForm.addField('textarea', null, 'Target price, lead time, other notes (optional)', 2000);
+            commentsInput.rows = 2;
+            
+            messages.scrollTop = messages.scrollHeight;
+            (prefill.quantity ? nameInput : quantityInput).focus();
+        }
+        
+        function addQuotePrompt(messageDiv, data) {
+            addAnswerAction(messageDiv, 'Request a quote here', () => showQuoteForm(data.quoteRequest, data.exchangeId));
+        }
+        
+        async function submitRfq(request) {
+            const fallbackError = 'Could not send your quote request right now. Please use the RFQ Form or call 408-733-9090.';
+            try {
+                const response = await postWidgetApi('/api/rfq', JSON.stringify(Object.assign({
+                    pageUrl: productInfo.url,
+                    sessionId: generateSessionId(),
+                    conversationId: conversationId || undefined
+                }, request)));
+                const data = await response.json();
+                return response.ok ? data : { error: data.error || fallbackError };
+            } catch (error) {
+                console.error('Ask Ed RFQ error:', error);
+                return { error: fallbackError };
+            }
+        }
+        
+        // Replace the content of an Ask ED message while its answer streams in
+        function updateMessage(messageDiv, content) {
+            renderMessageContent(messageDiv, content);
+            messages.scrollTop = messages.scrollHeight;
+        }
+        
+        // Read a text/event-stream response, rendering each answer snapshot progressively
+        async function readAnswerStream(apiResponse) {
+            const reader = apiResponse.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let messageDiv = null;
+            let finalData = null;
+            
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                
+                // Events are separated by a blank line
+                let boundary;
+                while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                    const rawEvent = buffer.substring(0, boundary);
+                    buffer = buffer.substring(boundary + 2);
+                    
+                    let eventName = 'message';
+                    let eventData = '';
+                    rawEvent.split('\n').forEach(line => {
+                        if (line.startsWith('event:')) eventName = line.substring(6).trim();
+                        if (line.startsWith('data:')) eventData += line.substring(5).trim();
+                    });
+                    if (!eventData) continue;
+                    
+                    const data = JSON.parse(eventData);
+                    if (eventName === 'delta' && data.answer) {
+                        if (!messageDiv) {
+                            messageDiv = addMessage(getAnswerContent(data), false);
+                        } else {
+                            updateMessage(messageDiv, getAnswerContent(data));
+                        }
+                    } else if (eventName === 'done' || eventName === 'error') {
+                        finalData = data;
+                    }
+                }
+            }
+            
+            return { messageDiv: messageDiv, data: finalData || { error: 'No answer received' } };
         }
         
         // Search bar submission → opens chat with first message
@@ -1100,33 +1928,14 @@
             
             // Mark that conversation has started
             hasConversationStarted = true;
-            
-            // Open chat window
-            chat.style.display = 'flex';
-            setTimeout(() => {
-                chat.style.transform = 'translateY(0)';
-                chat.style.opacity = '1';
-            }, 10);
-            isChatOpen = true;
-            
-            // Prevent body scroll on mobile
-            if (isMobile()) {
-                document.body.style.overflow = 'hidden';
-                document.body.style.position = 'fixed';
-                document.body.style.width = '100%';
-            }
+            openChat();
             
             // Add user message to chat
             addMessage(question, true);
             
             // Clear and hide search bar
             input.value = '';
-            searchbar.style.width = '0';
-            searchbar.style.opacity = '0';
-            searchbar.style.border = 'none';
-            send.style.opacity = '0';
-            isSearchOpen = false;
-            toggle.style.transform = 'scale(1)';
+            closeSearchBar();
             
             // Send to API
             await processMessage(question);
@@ -1145,6 +1954,31 @@
             await processMessage(question);
         }
         
+        // Human-readable wait time for rate-limited users
+        function formatRetryAfter(seconds) {
+            if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+            if (seconds < 3600) {
+                const minutes = Math.ceil(seconds / 60);
+                return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+            }
+            const hours = Math.ceil(seconds / 3600);
+            return `${hours} hour${hours === 1 ? '' : 's'}`;
+        }
+        
+        // Track the conversation so follow-ups keep their context
+        function rememberTurn(question, data) {
+            if (data.conversationId) {
+                conversationId = data.conversationId;
+            }
+            if (data.answer) {
+                conversationHistory.push({ role: 'user', content: question });
+                conversationHistory.push({ role: 'assistant', content: data.answer });
+                while (conversationHistory.length > MAX_HISTORY_TURNS) {
+                    conversationHistory.shift();
+                }
+            }
+        }
+        
         // Actual API call function
         async function processMessage(question) {
             const sendButton = isChatOpen ? chatSend : send;
@@ -1152,63 +1986,248 @@
             
             sendButton.disabled = true;
             sendButton.textContent = 'Thinking...';
+            emit('question', { question: question, conversationId: conversationId, productTitle: productInfo.title });
+            
+            const startedAt = Date.now();
+            const questionCategory = categorizeQuestion(question);
+            const trackedProduct = { productTitle: productInfo.title, sku: productInfo.sku || undefined };
+            const trackError = (errorType, message) => {
+                trackEvent('ask_ed_error', {
+                    event_action: 'error_occurred',
+                    event_label: message,
+                    error_type: errorType,
+                    product_name: productInfo.title
+                }, Object.assign({ questionCategory: questionCategory, errorType: errorType, errorMessage: message }, trackedProduct));
+            };
+            trackEvent('ask_ed_question_submitted', {
+                event_action: 'question_submitted',
+                event_label: productInfo.title,
+                product_name: productInfo.title,
+                question_length: question.length,
+                question_category: questionCategory,
+                has_datasheet: !!productInfo.datasheetUrl,
+                user_session_id: generateSessionId()
+            }, Object.assign({
+                question: question,
+                questionCategory: questionCategory,
+                hasDatasheet: !!productInfo.datasheetUrl,
+                conversationId: conversationId || undefined
+            }, trackedProduct));
             
             try {
                 console.log('Sending request to:', `${WIDGET_API_BASE}/api/ask`);
                 console.log('Request data:', {
                     question: question,
+                    sku: productInfo.sku,
                     productSpecs: productInfo.specs,
                     productTitle: productInfo.title,
                     datasheetUrl: productInfo.datasheetUrl,
                     similarProducts: productInfo.similarProducts,
-                    accessories: productInfo.accessories
+                    accessories: productInfo.accessories,
+                    conversationId: conversationId,
+                    historyTurns: conversationHistory.length
                 });
                 
-                const apiResponse = await fetch(`${WIDGET_API_BASE}/api/ask`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        question: question,
-                        productSpecs: productInfo.specs,
-                        productTitle: productInfo.title,
-                        datasheetUrl: productInfo.datasheetUrl,
-                        similarProducts: productInfo.similarProducts,
-                        accessories: productInfo.accessories
-                    })
+                const requestBody = JSON.stringify({
+                    stream: true,
+                    responseFormat: 'structured',
+                    question: question,
+                    sku: productInfo.sku || undefined,
+                    productUrl: productInfo.url,
+                    productSpecs: productInfo.specs,
+                    productTitle: productInfo.title,
+                    datasheetUrl: productInfo.datasheetUrl,
+                    similarProducts: productInfo.similarProducts,
+                    accessories: productInfo.accessories,
+                    conversationId: conversationId,
+                    history: conversationHistory.slice(-MAX_HISTORY_TURNS)
                 });
                 
+                // An expired or rotated token is refreshed once, transparently
+                const apiResponse = await postWidgetApi('/api/ask', requestBody, { 'Accept': 'text/event-stream, application/json' });
+                
                 console.log('Response status:', apiResponse.status);
-                const data = await apiResponse.json();
+                
+                // Streamed answers render progressively; validation/rate-limit errors still arrive as JSON
+                const contentType = apiResponse.headers.get('Content-Type') || '';
+                let streamedDiv = null;
+                let data;
+                if (contentType.includes('text/event-stream') && apiResponse.body) {
+                    const streamed = await readAnswerStream(apiResponse);
+                    streamedDiv = streamed.messageDiv;
+                    data = streamed.data;
+                } else {
+                    data = await apiResponse.json();
+                }
                 console.log('Response data:', data);
                 
-                if (data.error) {
-                    addMessage(`Sorry, ${data.error}`, false);
+                if (apiResponse.status === 429) {
+                    const retryAfter = parseInt(apiResponse.headers.get('Retry-After') || data.retryAfter, 10);
+                    addMessage(`You've reached the question limit for now. ${retryAfter ? `You can ask again in ${formatRetryAfter(retryAfter)}.` : 'Please try again later.'} For immediate help, contact a Bravo Power Expert via web chat or call 408-733-9090.`, false);
+                    emit('error', { question: question, status: 429, error: data.error, code: data.code || 'RATE_LIMITED' });
+                    trackError('rate_limited', data.error || 'Rate limit exceeded');
+                } else if (data.error) {
+                    if (streamedDiv) streamedDiv.remove();
+                    addMessage(`Sorry, ${data.error}${data.code ? ` (${data.code})` : ''}`, false);
+                    emit('error', { question: question, status: apiResponse.status, error: data.error, code: data.code });
+                    trackError(data.code ? String(data.code).toLowerCase() : 'api_error', data.error);
                 } else {
-                    addMessage(data.answer || 'No answer received', false);
+                    const answer = data.answer ? getAnswerContent(data) : 'No answer received';
+                    const answerDiv = streamedDiv || addMessage(answer, false);
+                    if (streamedDiv) updateMessage(streamedDiv, answer);
+                    const answerText = answerDiv.textContent;
+                    const containsLinks = !!answerDiv.querySelector('a');
+                    const responseTime = Date.now() - startedAt;
+                    addSourceNotes(answerDiv, data);
+                    if (data.exchangeId) addFeedbackControls(answerDiv, data.exchangeId);
+                    if (data.quoteRequest) addQuotePrompt(answerDiv, data);
+                    if (answerText.indexOf('408-733-9090') !== -1) addHandoffPrompt(answerDiv);
+                    rememberTurn(question, data);
+                    emit('answer', {
+                        question: question,
+                        answer: answerText,
+                        conversationId: data.conversationId,
+                        exchangeId: data.exchangeId,
+                        intent: data.intent,
+                        model: data.model,
+                        lowConfidence: !!data.lowConfidence
+                    });
+                    trackEvent('ask_ed_response_received', {
+                        event_action: 'response_received',
+                        event_label: productInfo.title,
+                        response_length: answerText.length,
+                        response_time_ms: responseTime,
+                        contains_links: containsLinks,
+                        product_name: productInfo.title
+                    }, Object.assign({
+                        question: question,
+                        questionCategory: questionCategory,
+                        conversationId: data.conversationId,
+                        exchangeId: data.exchangeId,
+                        responseLength: answerText.length,
+                        responseTimeMs: responseTime,
+                        containsLinks: containsLinks
+                    }, trackedProduct));
                 }
+                return data;
                 
             } catch (error) {
                 console.error('Ask Ed error:', error);
                 addMessage('Sorry, I\'m experiencing technical difficulties. Please contact a Bravo Power Expert via web chat or call 408-733-9090.', false);
+                emit('error', { question: question, error: error instanceof Error ? error.message : String(error) });
+                trackError('network_error', error instanceof Error ? error.message : String(error));
+                return { error: 'Network error' };
             } finally {
                 sendButton.disabled = false;
                 sendButton.textContent = originalText;
             }
         }
+        
+        // Programmatic question from AskEd.ask() - same flow as the chat window input
+        async function askQuestion(question) {
+            const text = String(question || '').trim();
+            if (!text) return null;
+            hasConversationStarted = true;
+            closeSearchBar();
+            openChat();
+            addMessage(text, true);
+            return processMessage(text);
+        }
+        
+        widgetControls = { open: openChat, close: closeChat, ask: askQuestion, handoff: showHandoffForm };
+        scheduleAutoOpen(openChat, () => isChatOpen);
     }
     
-    // Initialize when DOM is ready
-    console.log('Document ready state:', document.readyState);
-    if (document.readyState === 'loading') {
-        console.log('Waiting for DOM to load...');
-        document.addEventListener('DOMContentLoaded', function() {
-            console.log('DOM loaded, creating widget');
+    // Auto-open rules - a path prefix must match (when any are set), and once per session by default
+    function scheduleAutoOpen(openChat, isOpen) {
+        if (!widgetConfig.autoOpen) return;
+        const paths = widgetConfig.autoOpenPaths || [];
+        const pathname = window.location.pathname;
+        if (paths.length > 0 && !paths.some(prefix => pathname.indexOf(prefix) === 0)) return;
+        
+        try {
+            if (widgetConfig.autoOpenOncePerSession && sessionStorage.getItem(AUTO_OPEN_STORAGE_KEY)) return;
+        } catch (error) {
+            // Storage can be blocked - auto-open anyway
+        }
+        
+        setTimeout(() => {
+            if (isOpen()) return;
+            openChat();
+            try {
+                sessionStorage.setItem(AUTO_OPEN_STORAGE_KEY, '1');
+            } catch (error) {
+                // Ignore blocked storage
+            }
+        }, Math.max(0, widgetConfig.autoOpenDelay || 0));
+    }
+    
+    // Set by setupEventListeners - { open, close, ask, handoff } once the widget exists
+    let widgetControls = null;
+    let widgetCreated = false;
+    const pendingActions = [];
+    
+    function initWidget(options) {
+        if (widgetCreated) {
+            console.warn('Ask Ed already initialized - use data-auto-init="false" to configure it with AskEd.init()');
+            return;
+        }
+        widgetCreated = true;
+        widgetConfig = mergeConfig(widgetConfig, options);
+        WIDGET_API_BASE = widgetConfig.apiBase;
+        console.log('Ask Ed config:', widgetConfig);
+        
+        const create = () => {
             createWidget();
+            pendingActions.splice(0).forEach(action => action());
+            emit('ready', { apiBase: WIDGET_API_BASE });
+        };
+        
+        // Initialize when DOM is ready
+        console.log('Document ready state:', document.readyState);
+        if (document.readyState === 'loading') {
+            console.log('Waiting for DOM to load...');
+            document.addEventListener('DOMContentLoaded', function() {
+                console.log('DOM loaded, creating widget');
+                create();
+            });
+        } else {
+            console.log('DOM already loaded, creating widget immediately');
+            create();
+        }
+    }
+    
+    // Calls made before the widget exists run once it is created. Deferred so a page
+    // button's click doesn't reach the close-on-outside-click handler after opening.
+    function whenReady(action) {
+        return new Promise(resolve => {
+            const run = () => setTimeout(() => resolve(action(widgetControls)), 0);
+            if (widgetControls) run();
+            else pendingActions.push(run);
         });
+    }
+    
+    // Public API
+    window.AskEd = {
+        init: initWidget,
+        open: () => whenReady(controls => controls.open()),
+        close: () => whenReady(controls => controls.close()),
+        ask: question => whenReady(controls => controls.ask(question)),
+        handoff: () => whenReady(controls => controls.handoff()),
+        on: (eventName, callback) => {
+            (eventListeners[eventName] = eventListeners[eventName] || []).push(callback);
+        },
+        off: (eventName, callback) => {
+            eventListeners[eventName] = (eventListeners[eventName] || []).filter(listener => listener !== callback);
+        }
+    };
+    
+    // Auto-init after the current script finishes, so an inline AskEd.init() right after the tag still wins
+    if (widgetConfig.autoInit) {
+        setTimeout(() => {
+            if (!widgetCreated) initWidget();
+        }, 0);
     } else {
-        console.log('DOM already loaded, creating widget immediately');
-        createWidget();
+        console.log('Ask Ed waiting for AskEd.init()');
     }
 })();
\ No newline at end of file
@@ -0,0 +1,462 @@
+#!/usr/bin/env node
+// Offline regression evaluation for Ask Ed answers.
+//
+// Parses every datasheet fixture with lib/datasheetParser.ts and compares the model columns
+// with fixtures/datasheets/expected.json, then runs every golden case in fixtures/golden/*.json
+// through the real /api/ask handler
+// (pages/api/ask.ts, transpiled on the fly) against a local stub OpenAI server that
+// replays each case's recorded completion. Datasheet fixtures are served by the same
+// stub server, so no network access or API key is needed.
+//
+// Usage:
+//   node scripts/eval-ask-ed.js [--case <id>] [--stream] [--verbose]
+//   OPENAI_API_KEY=... node scripts/eval-ask-ed.js --record   (refresh recorded responses from OpenAI)
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const GOLDEN_DIR = path.join(ROOT, 'fixtures', 'golden');
+const DATASHEET_DIR = path.join(ROOT, 'fixtures', 'datasheets');
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const RFQ_FORM_URL = 'bravoelectro.com/rfq-form';
+const PRICING_INTENTS = ['pricing', 'volumePricing'];
+
+function parseArgs(argv) {
+  const args = { caseId: null, stream: false, record: false, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--case') args.caseId = argv[++i];
+    else if (argv[i] === '--stream') args.stream = true;
+    else if (argv[i] === '--record') args.record = true;
+    else if (argv[i] === '--verbose') args.verbose = true;
+  }
+  return args;
+}
+
+// Load the app's TypeScript modules without a build step
+function registerTypeScript() {
+  require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+        resolveJsonModule: true
+      }
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+function loadGoldenCases(caseId) {
+  const cases = [];
+  fs.readdirSync(GOLDEN_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .forEach(file => {
+      const filePath = path.join(GOLDEN_DIR, file);
+      JSON.parse(fs.readFileSync(filePath, 'utf8')).forEach(goldenCase => {
+        if (!caseId || goldenCase.id === caseId) cases.push({ file: filePath, goldenCase });
+      });
+    });
+  return cases;
+}
+
+function saveRecordedResponses(cases) {
+  const byFile = new Map();
+  cases.forEach(({ file, goldenCase }) => {
+    if (!byFile.has(file)) byFile.set(file, JSON.parse(fs.readFileSync(file, 'utf8')));
+    const fileCases = byFile.get(file);
+    const index = fileCases.findIndex(existing => existing.id === goldenCase.id);
+    if (index !== -1) fileCases[index].recordedResponse = goldenCase.recordedResponse;
+  });
+  byFile.forEach((fileCases, file) => fs.writeFileSync(file, JSON.stringify(fileCases, null, 2) + '\n'));
+}
+
+// Stub OpenAI server - replays the current case's recorded completion (or proxies to
+// OpenAI in --record mode) and serves datasheet fixtures under /datasheets/
+function startStubServer(state) {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url.startsWith('/datasheets/')) {
+      const filePath = path.join(DATASHEET_DIR, path.basename(decodeURIComponent(req.url)));
+      if (!fs.existsSync(filePath)) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end(fs.readFileSync(filePath));
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const request = JSON.parse(body || '{}');
+      state.completionRequests.push(request);
+
+      let content = state.currentCase.recordedResponse;
+      if (state.record) {
+        content = await recordCompletion(request);
+        state.currentCase.recordedResponse = content;
+      }
+      if (typeof content !== 'string') {
+        content = 'NO RECORDED RESPONSE';
+      }
+
+      const usage = { prompt_tokens: Math.ceil(JSON.stringify(request.messages).length / 4), completion_tokens: Math.ceil(content.length / 4) };
+      usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+      const base = { id: 'chatcmpl-eval', created: Math.floor(Date.now() / 1000), model: request.model };
+
+      if (request.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        // Split on word boundaries like a real token stream
+        (content.match(/\S+\s*|\s+/g) || []).forEach(piece => {
+          res.write(`data: ${JSON.stringify(Object.assign({ object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] }, base))}\n\n`);
+        });
+        res.write(`data: ${JSON.stringify(Object.assign({ object: 'chat.completion.chunk', choices: [], usage }, base))}\n\n`);
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(Object.assign({
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage
+      }, base)));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function recordCompletion(request) {
+  const response = await fetch(OPENAI_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${process.env.EVAL_RECORD_API_KEY}` },
+    body: JSON.stringify(Object.assign({}, request, { stream: false, stream_options: undefined }))
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(`OpenAI returned ${response.status}: ${JSON.stringify(data.error)}`);
+  return data.choices[0].message.content;
+}
+
+// Minimal NextApiRequest/NextApiResponse doubles for calling the handler directly
+function createRequest(body, ip) {
+  return {
+    method: 'POST',
+    body,
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+    socket: { remoteAddress: ip }
+  };
+}
+
+function createResponse() {
+  const res = { statusCode: 200, headers: {}, body: null, written: '', headersSent: false };
+  res.setHeader = (name, value) => { res.headers[name.toLowerCase()] = value; return res; };
+  res.getHeader = name => res.headers[name.toLowerCase()];
+  res.status = code => { res.statusCode = code; return res; };
+  res.json = data => { res.body = data; res.headersSent = true; return res; };
+  res.write = chunk => { res.headersSent = true; res.written += chunk; return true; };
+  res.end = () => { res.headersSent = true; return res; };
+  return res;
+}
+
+// Pull the final `done` (or `error`) payload and every `delta` answer out of a streamed response
+function readStreamedResult(written) {
+  let result = null;
+  const deltas = [];
+  written.split('\n\n').forEach(rawEvent => {
+    const eventName = (rawEvent.match(/^event: (.+)$/m) || [])[1];
+    const data = (rawEvent.match(/^data: (.+)$/m) || [])[1];
+    if ((eventName === 'done' || eventName === 'error') && data) result = JSON.parse(data);
+    if (eventName === 'delta' && data) deltas.push(JSON.parse(data).answer || '');
+  });
+  return { result: result || { error: 'No done event received' }, deltas };
+}
+
+function stripHtml(html) {
+  return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').replace(/&amp;/g, '&');
+}
+
+// Case, whitespace and range-separator insensitive comparison ("43 ~ 53V" matches "43-53V")
+function normalize(text) {
+  return text.toLowerCase().replace(/\s+/g, '').replace(/[~–—]/g, '-');
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "18 ~ 36V" also matches "18-36V", "18 to 36 V"; never matches inside a longer value (136V, 36VAC)
+function valuePattern(value) {
+  const source = escapeRegExp(value.replace(/\s+/g, ''))
+    .replace(/~/g, '\\s*(?:~|-|–|to)\\s*')
+    .replace(/(\d)([A-Za-z%])/g, '$1\\s*$2');
+  return new RegExp(`(?<![\\d.])${source}(?![A-Za-z])`, 'i');
+}
+
+// Numeric values with units in a spec cell, e.g. "3.4A", "18 ~ 36V", "93%"
+function extractSpecValues(cell) {
+  return cell.match(/\d+(?:\.\d+)?(?:\s*~\s*\d+(?:\.\d+)?)?\s*(?:mVp-p|VAC|VDC|Hz|mA|W|V|A|%)/g) || [];
+}
+
+// Values that belong to another model's column and differ from the product's own column
+async function getOtherModelValues(app, datasheetFixture, productTitle, otherModel) {
+  const pdfBuffer = fs.readFileSync(path.join(DATASHEET_DIR, datasheetFixture));
+  const pdfText = (await require('pdf-parse')(pdfBuffer)).text;
+  const table = app.parser.parseDatasheetTable(pdfText);
+  if (!table) throw new Error(`No spec table found in ${datasheetFixture}`);
+
+  const own = app.parser.getModelSpecs(table, productTitle);
+  const other = app.parser.getModelSpecs(table, otherModel);
+  if (!own || !other) throw new Error(`Model column not found in ${datasheetFixture}`);
+
+  const ownValues = new Set();
+  own.specs.forEach(spec => extractSpecValues(spec.value).forEach(value => ownValues.add(normalize(value))));
+
+  const otherValues = new Set();
+  other.specs.forEach(spec => extractSpecValues(spec.value).forEach(value => {
+    if (!ownValues.has(normalize(value))) otherValues.add(value);
+  }));
+  return Array.from(otherValues);
+}
+
+// Parse each fixture like fetchPDFContent does and compare the resolved columns with expected.json
+async function checkDatasheetFixtures(app) {
+  const expected = JSON.parse(fs.readFileSync(path.join(DATASHEET_DIR, 'expected.json'), 'utf8'));
+  const report = [];
+  for (const fixture of expected) {
+    const pdfBuffer = fs.readFileSync(path.join(DATASHEET_DIR, fixture.fixture));
+    const table = app.parser.parseDatasheetTable((await require('pdf-parse')(pdfBuffer)).text);
+    Object.keys(fixture.columns).forEach(model => {
+      const failures = [];
+      const column = fixture.columns[model];
+      const modelSpecs = table ? app.parser.getModelSpecs(table, model) : null;
+      if (!table) {
+        failures.push('no spec table found');
+      } else if (table.models.join(', ') !== fixture.models.join(', ')) {
+        failures.push(`models: expected ${fixture.models.join(', ')}, got ${table.models.join(', ')}`);
+      }
+      if (table && !modelSpecs) {
+        failures.push('model column not resolved');
+      } else if (modelSpecs) {
+        if (modelSpecs.column !== column.column) failures.push(`column: expected ${column.column}, got ${modelSpecs.column}`);
+        if (modelSpecs.exactMatch !== column.exactMatch) failures.push(`exactMatch: expected ${column.exactMatch}, got ${modelSpecs.exactMatch}`);
+        Object.keys(column.specs).forEach(parameter => {
+          const spec = modelSpecs.specs.find(entry => entry.parameter === parameter);
+          if (!spec) failures.push(`missing spec: ${parameter}`);
+          else if (spec.value !== column.specs[parameter]) failures.push(`${parameter}: expected ${column.specs[parameter]}, got ${spec.value}`);
+        });
+      }
+      report.push({ id: `datasheet ${fixture.fixture} ${model}`, failures });
+    });
+  }
+  return report;
+}
+
+async function checkCase(app, goldenCase, result, promptText, deltas) {
+  const failures = [];
+  const expect = goldenCase.expect || {};
+  const html = result.answer || '';
+  const text = stripHtml(html);
+  const normalizedText = normalize(text);
+
+  if (result.error) {
+    failures.push(`request failed: ${result.error}`);
+    return failures;
+  }
+
+  if (expect.model && result.model !== expect.model) {
+    failures.push(`model: expected ${expect.model}, got ${result.model}`);
+  }
+  if (expect.intent && result.intent !== expect.intent) {
+    failures.push(`intent: expected ${expect.intent}, got ${result.intent}`);
+  }
+
+  (expect.facts || []).forEach(fact => {
+    if (!normalizedText.includes(normalize(fact))) failures.push(`missing fact: ${fact}`);
+  });
+  (expect.requiredPhrases || []).forEach(phrase => {
+    if (!text.toLowerCase().includes(phrase.toLowerCase())) failures.push(`missing phrase: "${phrase}"`);
+  });
+  (expect.forbiddenPhrases || []).forEach(phrase => {
+    if (text.toLowerCase().includes(phrase.toLowerCase())) failures.push(`forbidden phrase: "${phrase}"`);
+    // The customer reads every streamed snapshot, not just the final answer
+    if (deltas.some(delta => stripHtml(delta).toLowerCase().includes(phrase.toLowerCase()))) failures.push(`forbidden phrase streamed: "${phrase}"`);
+  });
+  Object.keys(expect.links || {}).forEach(linkText => {
+    const link = new RegExp(`<a href="${escapeRegExp(expect.links[linkText])}"[^>]*>${escapeRegExp(linkText)}</a>`);
+    if (!link.test(html)) failures.push(`missing link: ${linkText} -> ${expect.links[linkText]}`);
+  });
+  (expect.notLinked || []).forEach(linkText => {
+    if (new RegExp(`<a [^>]*>${escapeRegExp(linkText)}</a>`, 'i').test(html)) failures.push(`unexpected link: ${linkText}`);
+  });
+  (expect.citations || []).forEach(label => {
+    if (!(result.citations || []).some(citation => citation.label === label)) failures.push(`missing citation: "${label}"`);
+  });
+  if (typeof expect.lowConfidence === 'boolean' && !!result.lowConfidence !== expect.lowConfidence) {
+    failures.push(`lowConfidence: expected ${expect.lowConfidence}, got ${!!result.lowConfidence}`);
+  }
+  if (expect.answerSource) {
+    const exchanges = result.exchangeId ? await app.exchangeLog.getExchangeLogStore().listDay(result.exchangeId.substring(0, 10)) : [];
+    const exchange = exchanges.find(record => record.id === result.exchangeId);
+    const source = exchange ? app.analytics.answerSource(exchange) : null;
+    if (source !== expect.answerSource) failures.push(`answerSource: expected ${expect.answerSource}, got ${source}`);
+  }
+  if (expect.quoteRequest === null && result.quoteRequest) {
+    failures.push('unexpected quoteRequest');
+  }
+  if (expect.quoteRequest) {
+    const quoteRequest = result.quoteRequest || {};
+    if (!result.quoteRequest) failures.push('missing quoteRequest');
+    Object.keys(expect.quoteRequest).forEach(key => {
+      const expected = expect.quoteRequest[key];
+      const actual = quoteRequest[key] === undefined ? null : quoteRequest[key];
+      if (result.quoteRequest && actual !== expected) failures.push(`quoteRequest.${key}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    });
+  }
+  (expect.languageRuleHits || []).forEach(phrase => {
+    if (!(result.languageRuleHits || []).some(hit => hit.phrase === phrase)) failures.push(`language rule did not fire: "${phrase}"`);
+  });
+  (expect.promptIncludes || []).forEach(snippet => {
+    if (!promptText.includes(snippet)) failures.push(`prompt missing: "${snippet}"`);
+  });
+  (expect.promptExcludes || []).forEach(snippet => {
+    if (promptText.includes(snippet)) failures.push(`prompt includes: "${snippet}"`);
+  });
+
+  if (expect.notFromModel) {
+    const otherValues = await getOtherModelValues(app, goldenCase.datasheetFixture, goldenCase.productTitle, expect.notFromModel);
+    otherValues.forEach(value => {
+      if (valuePattern(value).test(text)) failures.push(`uses ${expect.notFromModel} value: ${value}`);
+    });
+  }
+
+  // Rules that apply to every answer
+  app.config.languageRules.forbiddenPhrases.forEach(phrase => {
+    if (text.toLowerCase().includes(phrase.toLowerCase())) failures.push(`languageRules forbidden phrase: "${phrase}"`);
+  });
+  if (PRICING_INTENTS.includes(result.intent) && !html.includes(RFQ_FORM_URL)) {
+    failures.push('pricing answer without RFQ Form link');
+  }
+
+  return failures;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const cases = loadGoldenCases(args.caseId);
+  if (cases.length === 0) {
+    console.error(args.caseId ? `No golden case with id "${args.caseId}"` : `No golden cases in ${GOLDEN_DIR}`);
+    process.exit(1);
+  }
+  if (args.record && !process.env.OPENAI_API_KEY) {
+    console.error('--record needs OPENAI_API_KEY');
+    process.exit(1);
+  }
+
+  const state = { currentCase: null, completionRequests: [], record: args.record };
+  const server = await startStubServer(state);
+  const stubBase = `http://127.0.0.1:${server.address().port}`;
+
+  // Point the app at the stub and keep all state in memory for this run
+  process.env.EVAL_RECORD_API_KEY = process.env.OPENAI_API_KEY || '';
+  process.env.OPENAI_API_KEY = 'eval-stub-key';
+  process.env.OPENAI_BASE_URL = `${stubBase}/v1`;
+  process.env.LLM_PROVIDERS = 'openai';
+  process.env.DATASHEET_CACHE_STORE = 'memory';
+  process.env.EXCHANGE_LOG_STORE = 'memory';
+  process.env.RATE_LIMIT_STORE = 'memory';
+  process.env.SKU_CATALOG_PATH = path.join(ROOT, 'fixtures', 'sku-catalog.csv');
+  process.env.PRODUCT_CATALOG_PROVIDER = 'file';
+  process.env.PRODUCT_CATALOG_PATH = path.join(ROOT, 'fixtures', 'product-catalog.json');
+  delete process.env.REDIS_URL;
+  delete process.env.ALLOWED_ORIGINS;
+  delete process.env.WIDGET_TOKEN_SECRET;
+
+  registerTypeScript();
+  const originalLog = console.log;
+  if (!args.verbose) console.log = () => {};
+  const app = {
+    handler: require(path.join(ROOT, 'pages', 'api', 'ask.ts')).default,
+    config: require(path.join(ROOT, 'pages', 'api', 'ask.ts')).ASK_ED_CONFIG,
+    parser: require(path.join(ROOT, 'lib', 'datasheetParser.ts')),
+    exchangeLog: require(path.join(ROOT, 'lib', 'exchangeLog.ts')),
+    analytics: require(path.join(ROOT, 'lib', 'analyticsEvents.ts'))
+  };
+
+  // Datasheet parser checks only run with the full golden set
+  const datasheetReport = args.caseId ? [] : await checkDatasheetFixtures(app);
+
+  let passed = 0;
+  const report = [];
+
+  for (let i = 0; i < cases.length; i++) {
+    const goldenCase = cases[i].goldenCase;
+    state.currentCase = goldenCase;
+    state.completionRequests = [];
+
+    const body = {
+      question: goldenCase.question,
+      sku: goldenCase.sku,
+      productUrl: goldenCase.productUrl,
+      productSpecs: goldenCase.productSpecs,
+      productTitle: goldenCase.productTitle,
+      datasheetUrl: goldenCase.datasheetFixture ? `${stubBase}/datasheets/${goldenCase.datasheetFixture}` : undefined,
+      similarProducts: goldenCase.similarProducts,
+      accessories: goldenCase.accessories,
+      history: goldenCase.history,
+      stream: args.stream && !args.record
+    };
+
+    let failures;
+    try {
+      // Each case gets its own client IP so rate limits never interfere
+      const res = createResponse();
+      await app.handler(createRequest(body, `eval-${i}`), res);
+      const streamed = body.stream && res.written ? readStreamedResult(res.written) : { result: res.body || {}, deltas: [] };
+      const result = streamed.result;
+      const promptText = state.completionRequests.map(request => request.messages.map(message => message.content).join('\n')).join('\n');
+      failures = await checkCase(app, goldenCase, result, promptText, streamed.deltas);
+      if (state.completionRequests.length > 0 && typeof goldenCase.recordedResponse !== 'string') {
+        failures.push('case reached OpenAI but has no recordedResponse (run with --record)');
+      }
+    } catch (error) {
+      failures = [`runner error: ${error.message}`];
+    }
+
+    if (failures.length === 0) passed++;
+    report.push({ id: goldenCase.id, failures });
+  }
+
+  console.log = originalLog;
+  server.close();
+
+  datasheetReport.concat(report).forEach(({ id, failures }) => {
+    console.log(`${failures.length === 0 ? 'PASS' : 'FAIL'}  ${id}`);
+    failures.forEach(failure => console.log(`      - ${failure}`));
+  });
+  const datasheetPassed = datasheetReport.filter(check => check.failures.length === 0).length;
+  if (datasheetReport.length > 0) {
+    console.log(`\n${datasheetPassed}/${datasheetReport.length} datasheet fixture checks passed`);
+  }
+  console.log(`${datasheetReport.length > 0 ? '' : '\n'}${passed}/${report.length} golden cases passed${args.stream ? ' (streaming)' : ''}`);
+
+  if (args.record) {
+    saveRecordedResponses(cases);
+    console.log('Recorded responses saved');
+  }
+
+  process.exit(passed === report.length && datasheetPassed === datasheetReport.length ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Eval failed:', error);
+  process.exit(1);
+});
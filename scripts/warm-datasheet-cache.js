@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+// Pre-warm the Ask Ed datasheet cache from a list of SKUs and/or datasheet URLs.
+//
+// Usage:
+//   ADMIN_TOKEN=... node scripts/warm-datasheet-cache.js products.txt [--base https://ask-ed-chatbot.vercel.app] [--force]
+//
+// Input file formats (one entry per line, # for comments):
+//   https://www.meanwell.com/Upload/PDF/HLG-120H/HLG-120H-SPEC.PDF
+//   HLG-120H-48A,https://www.meanwell.com/Upload/PDF/HLG-120H/HLG-120H-SPEC.PDF
+//   HLG-120H-48A            (datasheet link is looked up on the bravoelectro.com product page)
+// or a JSON array of { "sku": "...", "datasheetUrl": "..." } objects.
+
+const fs = require('fs');
+
+const BATCH_SIZE = 10;
+const PRODUCT_BASE = 'https://www.bravoelectro.com';
+
+function parseArgs(argv) {
+  const args = { file: null, base: process.env.ASK_ED_API_BASE || 'http://localhost:3000', force: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--base') {
+      args.base = argv[++i];
+    } else if (argv[i] === '--force') {
+      args.force = true;
+    } else {
+      args.file = argv[i];
+    }
+  }
+  return args;
+}
+
+function readEntries(file) {
+  const text = fs.readFileSync(file, 'utf8').trim();
+
+  if (text.startsWith('[')) {
+    return JSON.parse(text).map(item => ({ sku: item.sku || null, datasheetUrl: item.datasheetUrl || null }));
+  }
+
+  return text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [first, second] = line.split(',').map(part => part.trim());
+      if (/^https?:\/\//.test(first)) return { sku: null, datasheetUrl: first };
+      return { sku: first, datasheetUrl: second || null };
+    });
+}
+
+// Same URL rule Ask Ed uses for part-number links
+function productUrlForSku(sku) {
+  return `${PRODUCT_BASE}/${sku.replace(/\./g, '-').toLowerCase()}.html`;
+}
+
+async function findDatasheetUrl(sku) {
+  const response = await fetch(productUrlForSku(sku));
+  if (!response.ok) throw new Error(`product page returned ${response.status}`);
+
+  const html = await response.text();
+  const match = html.match(/href="([^"]+\.pdf[^"]*)"/i);
+  if (!match) throw new Error('no datasheet link on product page');
+  return new URL(match[1], PRODUCT_BASE).toString();
+}
+
+async function warmBatch(base, urls, force) {
+  const response = await fetch(`${base}/api/admin/datasheet-cache`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.ADMIN_TOKEN}`
+    },
+    body: JSON.stringify({ urls, force })
+  });
+
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+  return data.results;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.file) {
+    console.error('Usage: node scripts/warm-datasheet-cache.js <file> [--base URL] [--force]');
+    process.exit(1);
+  }
+  if (!process.env.ADMIN_TOKEN) {
+    console.error('ADMIN_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  const entries = readEntries(args.file);
+  const urls = new Set();
+
+  for (const entry of entries) {
+    if (entry.datasheetUrl) {
+      urls.add(entry.datasheetUrl);
+      continue;
+    }
+    try {
+      const datasheetUrl = await findDatasheetUrl(entry.sku);
+      console.log(`${entry.sku}: ${datasheetUrl}`);
+      urls.add(datasheetUrl);
+    } catch (error) {
+      console.error(`${entry.sku}: skipped (${error.message})`);
+    }
+  }
+
+  const counts = { cached: 0, warmed: 0, failed: 0 };
+  const urlList = Array.from(urls);
+
+  for (let i = 0; i < urlList.length; i += BATCH_SIZE) {
+    const batch = urlList.slice(i, i + BATCH_SIZE);
+    try {
+      const results = await warmBatch(args.base, batch, args.force);
+      results.forEach(result => {
+        counts[result.status]++;
+        console.log(`[${result.status}] ${result.url}${result.error ? ` - ${result.error}` : ''}`);
+      });
+    } catch (error) {
+      counts.failed += batch.length;
+      console.error(`Batch failed: ${error.message}`);
+    }
+  }
+
+  console.log(`\nDone: ${counts.warmed} warmed, ${counts.cached} already cached, ${counts.failed} failed`);
+  process.exit(counts.failed > 0 ? 1 : 0);
+}
+
+main();